@@ -2,12 +2,17 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import * as dotenv from "dotenv";
+import "./tasks/deploy";
 dotenv.config();
 
 const { NODE_URL } = process.env;
 const config: HardhatUserConfig = {
   solidity: "0.8.27",
   networks: {
+    hardhat: {
+      // The in-process test harness deploys the EntryPoint compiled without the optimizer, which can exceed the size limit
+      allowUnlimitedContractSize: true,
+    },
     dev: {
       chainId: 1337.,
       url: NODE_URL,
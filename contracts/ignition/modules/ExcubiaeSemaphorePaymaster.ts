@@ -0,0 +1,51 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { Artifact } from "@nomicfoundation/ignition-core";
+import {
+    SemaphoreChecker__factory,
+    SemaphoreCheckerFactory__factory,
+} from "@excubiae/contracts/typechain-types";
+import { addStake, getEntryPoint } from "../params";
+
+// The Excubiae checker contracts are not compiled by this project, so their artifacts come from the package
+function toArtifact(contractName: string, factory: { abi: readonly unknown[]; bytecode: string }): Artifact {
+    return {
+        contractName,
+        sourceName: `@excubiae/contracts/contracts/extensions/semaphore/${contractName}.sol`,
+        abi: [...factory.abi],
+        bytecode: factory.bytecode,
+        linkReferences: {},
+    };
+}
+
+const SemaphoreCheckerArtifact = toArtifact("SemaphoreChecker", SemaphoreChecker__factory);
+const SemaphoreCheckerFactoryArtifact = toArtifact("SemaphoreCheckerFactory", SemaphoreCheckerFactory__factory);
+
+/**
+ * Deploys a SemaphoreChecker clone for one group of an existing Semaphore
+ * contract, a SemaphorePolicy clone enforcing it and the paymaster, which is
+ * set as the policy's target.
+ *
+ * Parameters: semaphore (Semaphore address), groupId, entryPoint, stakeAmount, unstakeDelaySec.
+ */
+export default buildModule("ExcubiaeSemaphorePaymaster", (m) => {
+    const checkerFactory = m.contract("SemaphoreCheckerFactory", SemaphoreCheckerFactoryArtifact);
+    const deployChecker = m.call(checkerFactory, "deploy", [m.getParameter("semaphore"), m.getParameter("groupId", 0n)]);
+    const checker = m.contractAt(
+        "SemaphoreChecker",
+        SemaphoreCheckerArtifact,
+        m.readEventArgument(deployChecker, "CloneDeployed", "clone", { emitter: checkerFactory }),
+    );
+
+    const policyFactory = m.contract("SemaphorePolicyFactory");
+    const deployPolicy = m.call(policyFactory, "deploy", [checker]);
+    const policy = m.contractAt(
+        "SemaphorePolicy",
+        m.readEventArgument(deployPolicy, "CloneDeployed", "clone", { emitter: policyFactory }),
+    );
+
+    const paymaster = m.contract("ExcubiaeSemaphorePaymaster", [getEntryPoint(m), policy]);
+    m.call(policy, "setTarget", [paymaster]);
+    addStake(m, paymaster);
+
+    return { paymaster, policy, policyFactory, checker, checkerFactory };
+});
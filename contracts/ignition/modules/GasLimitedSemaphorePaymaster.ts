@@ -0,0 +1,25 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import PoseidonT3Module from "./PoseidonT3";
+import { addStake, getEntryPoint } from "../params";
+
+/**
+ * Parameters: verifier (SemaphoreVerifier address), firstEpochTimestamp,
+ * epochDuration (seconds, default one day), entryPoint, stakeAmount, unstakeDelaySec.
+ */
+export default buildModule("GasLimitedSemaphorePaymaster", (m) => {
+    const { poseidonT3 } = m.useModule(PoseidonT3Module);
+
+    const paymaster = m.contract(
+        "GasLimitedSemaphorePaymaster",
+        [
+            getEntryPoint(m),
+            m.getParameter("verifier"),
+            m.getParameter("epochDuration", 86400n),
+            m.getParameter("firstEpochTimestamp"),
+        ],
+        { libraries: { PoseidonT3: poseidonT3 } },
+    );
+    addStake(m, paymaster);
+
+    return { paymaster, poseidonT3 };
+});
@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Library linked into every paymaster that inherits Semaphore.
+ */
+export default buildModule("PoseidonT3", (m) => {
+    const poseidonT3 = m.library("PoseidonT3");
+
+    return { poseidonT3 };
+});
@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import PoseidonT3Module from "./PoseidonT3";
+import { addStake, getEntryPoint } from "../params";
+
+/**
+ * Parameters: verifier (SemaphoreVerifier address), entryPoint, stakeAmount, unstakeDelaySec.
+ */
+export default buildModule("SimpleSemaphorePaymaster", (m) => {
+    const { poseidonT3 } = m.useModule(PoseidonT3Module);
+
+    const paymaster = m.contract("SimpleSemaphorePaymaster", [getEntryPoint(m), m.getParameter("verifier")], {
+        libraries: { PoseidonT3: poseidonT3 },
+    });
+    addStake(m, paymaster);
+
+    return { paymaster, poseidonT3 };
+});
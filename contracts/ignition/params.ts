@@ -0,0 +1,25 @@
+import { IgnitionModuleBuilder } from "@nomicfoundation/ignition-core";
+
+// ERC-4337 v0.7 EntryPoint, deployed at the same address on every network
+export const ENTRY_POINT_V07 = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+export const DEFAULT_STAKE_AMOUNT = 1_000_000_000_000_000_000n; // 1 ETH
+export const DEFAULT_UNSTAKE_DELAY_SEC = 86400n;
+
+/**
+ * EntryPoint parameter shared by every paymaster module.
+ */
+export function getEntryPoint(m: IgnitionModuleBuilder) {
+    return m.getParameter("entryPoint", ENTRY_POINT_V07);
+}
+
+/**
+ * Stakes the paymaster in the EntryPoint, which bundlers require before
+ * accepting operations that use the paymaster's storage.
+ */
+export function addStake(m: IgnitionModuleBuilder, paymaster: Parameters<IgnitionModuleBuilder["call"]>[0]) {
+    const stakeAmount = m.getParameter("stakeAmount", DEFAULT_STAKE_AMOUNT);
+    const unstakeDelaySec = m.getParameter("unstakeDelaySec", DEFAULT_UNSTAKE_DELAY_SEC);
+
+    return m.call(paymaster, "addStake", [unstakeDelaySec], { value: stakeAmount });
+}
@@ -75,7 +75,7 @@ contract CachedSemaphorePaymaster is SimpleSemaphorePaymaster {
             // Set the message to the expected message
             uint256 expectedMessage = uint256(uint160(userOp.sender));
 
-            if (proof.message != expectedMessage) {
+            if (proof.message != expectedMessage || proof.scope != getScope(groupId)) {
                 return ("", _packValidationData(true, 0, 0));
             }
 
@@ -14,6 +14,7 @@ struct NullifierGasData {
     uint256 gasUsed; // cumulative gas used for the nullifier in the current epoch per group
     uint256 lastMerkleRoot; // last merkle root when proof was verified for the nullifier
     uint256 epoch; // epoch when the nullifier was verified
+    address sender; // account the proof was verified for, the only one allowed to use the cached nullifier
 }
 
 /**
@@ -36,7 +37,7 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
     /**
      * @notice Mapping from nullifier to gas used per epoch
      * @dev Stores the gas used per epoch for each user (identified by nullifier)
-     * since nullifier is based on scope, and scope is hash(groupId, epoch), we can use the nullifier as a unique identifier for the user's gas usage
+     * since nullifier is based on scope, and scope is hash(chainId, paymaster, groupId, epoch), we can use the nullifier as a unique identifier for the user's gas usage
      */
     mapping(uint256 => NullifierGasData) public gasData;
 
@@ -75,7 +76,9 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
      * @dev The paymaster data format is:
      *      - First byte: 0x01 for cached proof, 0x00 for new proof
      *      - Next 32 bytes: group ID
-     *      - Remaining bytes (for new proof only): encoded SemaphoreProof
+     *      - Remaining bytes: encoded SemaphoreProof for a new proof, the nullifier for a cached one
+     *      A cached nullifier can only be used by the sender its proof was verified for, since the
+     *      nullifier is public once the first operation is included
      */
     function _validatePaymasterUserOp(
         PackedUserOperation calldata userOp,
@@ -112,6 +115,11 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
             if (nullifierGasData.epoch != currentEpoch) {
                 return ("", _packValidationData(true, 0, 0));
             }
+
+            // check if the proof was verified for this sender, so others can't spend the member's budget
+            if (nullifierGasData.sender != userOp.sender) {
+                return ("", _packValidationData(true, 0, 0));
+            }
         } else {
             // Decode new proof from remaining data
             ISemaphore.SemaphoreProof memory proof = abi.decode(
@@ -120,9 +128,8 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
             );
 
             uint256 expectedMessage = uint256(uint160(userOp.sender));
-            uint256 expectedScope = uint256(keccak256(abi.encode(groupId, currentEpoch)));
 
-            if (proof.message != expectedMessage || proof.scope != expectedScope) {
+            if (proof.message != expectedMessage || proof.scope != getScope(groupId)) {
                 return ("", _packValidationData(true, 0, 0));
             }
 
@@ -135,6 +142,7 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
             // cache the proof
             gasData[nullifier].lastMerkleRoot = getMerkleTreeRoot(groupId);
             gasData[nullifier].epoch = currentEpoch;
+            gasData[nullifier].sender = userOp.sender;
         }
 
         // check if user has enough gas left to pay for the operation, proof.nullifier is used as a unique identifier for the user's gas usage
@@ -145,6 +153,16 @@ contract GasLimitedSemaphorePaymaster is SimpleSemaphorePaymaster {
         return (abi.encode(nullifier), _packValidationData(false, 0, 0));
     }
 
+    /**
+     * @notice Scope the proofs for a group must carry in the current epoch
+     * @param groupId The ID of the group
+     * @return The scope, keccak256(abi.encode(chainId, paymaster address, groupId, currentEpoch))
+     * @dev A new epoch gives members new nullifiers, and so a new gas budget
+     */
+    function getScope(uint256 groupId) public view override returns (uint256) {
+        return uint256(keccak256(abi.encode(block.chainid, address(this), groupId, currentEpoch)));
+    }
+
     /**
      * @notice Post-operation processing - deducts gas costs from group balance
      * @param context The context containing the group ID
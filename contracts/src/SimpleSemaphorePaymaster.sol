@@ -48,6 +48,17 @@ contract SimpleSemaphorePaymaster is BasePaymaster, Semaphore {
         this.deposit{value: msg.value}();
     }
 
+    /**
+     * @notice Scope the proofs for a group must carry
+     * @param groupId The ID of the group
+     * @return The scope, keccak256(abi.encode(chainId, paymaster address, groupId))
+     * @dev Binding the scope to this deployment stops a proof from being replayed on
+     * another chain or paymaster with the same group
+     */
+    function getScope(uint256 groupId) public view virtual returns (uint256) {
+        return uint256(keccak256(abi.encode(block.chainid, address(this), groupId)));
+    }
+
     /**
      * @notice Validates a user operation by verifying a Semaphore proof
      * @param userOp The user operation to validate
@@ -70,6 +81,11 @@ contract SimpleSemaphorePaymaster is BasePaymaster, Semaphore {
             return ("", _packValidationData(true, 0, 0));
         }
 
+        // scope must be bound to this chain, paymaster and group
+        if (data.proof.scope != getScope(data.groupId)) {
+            return ("", _packValidationData(true, 0, 0));
+        }
+
         // Check if group has sufficient balance
         if (groupDeposits[data.groupId] < requiredPreFund) {
             return ("", _packValidationData(true, 0, 0));
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title MockERC20
+/// @notice ERC-20 anyone can mint, for sponsoring token calls in the tests
+contract MockERC20 is ERC20 {
+    constructor() ERC20("Mock Token", "MOCK") {}
+
+    /// @notice Mints amount tokens to the given address
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -14,7 +14,7 @@ contract SimpleAccount is BaseAccount {
         return IEntryPoint(_entryPoint);
     }
 
-    function initialize(address entryPoint_) external {
+    function initialize(address entryPoint_) public {
         _entryPoint = entryPoint_;
     }
 
@@ -25,7 +25,7 @@ contract SimpleAccount is BaseAccount {
     function _validateSignature(
         PackedUserOperation calldata userOp,
         bytes32 userOpHash
-    ) internal override returns (uint256 validationData) {
+    ) internal virtual override returns (uint256 validationData) {
         return 0;
     }
 
@@ -35,6 +35,25 @@ contract SimpleAccount is BaseAccount {
     /// @param func The function data to execute
     function execute(address dest, uint256 value, bytes calldata func) external {
         _requireFromEntryPoint();
+        _call(dest, value, func);
+    }
+
+    /// @notice Executes a sequence of transactions after validation, reverting all of them if one reverts
+    /// @param dest The destination addresses
+    /// @param value The amounts of ETH to send, or empty when no call sends ETH
+    /// @param func The function data of each call
+    function executeBatch(address[] calldata dest, uint256[] calldata value, bytes[] calldata func) external {
+        _requireFromEntryPoint();
+        require(
+            dest.length == func.length && (value.length == 0 || value.length == func.length), "wrong array lengths"
+        );
+        for (uint256 i = 0; i < dest.length; i++) {
+            _call(dest[i], value.length == 0 ? 0 : value[i], func[i]);
+        }
+    }
+
+    /// @notice Calls dest and bubbles up its revert reason
+    function _call(address dest, uint256 value, bytes calldata func) internal {
         (bool success, bytes memory result) = dest.call{value: value}(func);
         if (!success) {
             assembly {
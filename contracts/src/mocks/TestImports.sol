@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.23;
+
+/// @notice Makes Hardhat compile the external contracts the integration tests deploy:
+/// the EntryPoint for the in-process harness and the real Semaphore verifier
+import {EntryPoint} from "@account-abstraction/contracts/core/EntryPoint.sol";
+import {SemaphoreVerifier} from "@semaphore-protocol/contracts/base/SemaphoreVerifier.sol";
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+import "./SimpleAccount.sol";
+
+/// @notice SimpleAccount that checks the operation was signed by its owner,
+/// either as an EIP-191 signature over the userOpHash or as EIP-712 typed data
+/// wrapping it. Lets the tests prove the SDK signs the hash the EntryPoint computes.
+contract VerifyingSimpleAccount is SimpleAccount, EIP712 {
+    /// @notice The typed data signed in EIP-712 mode
+    bytes32 public constant USER_OPERATION_TYPEHASH = keccak256("UserOperation(bytes32 userOpHash)");
+
+    /// @notice The address the signatures must recover to
+    address public immutable owner;
+
+    /// @notice Whether signatures are over the EIP-712 digest instead of the EIP-191 one
+    bool public immutable typedData;
+
+    constructor(address entryPoint_, address owner_, bool typedData_) EIP712("VerifyingSimpleAccount", "1") {
+        initialize(entryPoint_);
+        owner = owner_;
+        typedData = typedData_;
+    }
+
+    /// @notice Validates that the owner signed the user operation hash
+    /// @param userOp The user operation to validate
+    /// @param userOpHash The hash of the user operation
+    /// @return validationData SIG_VALIDATION_SUCCESS if the owner signed, SIG_VALIDATION_FAILED otherwise
+    function _validateSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal view override returns (uint256 validationData) {
+        bytes32 digest = typedData
+            ? _hashTypedDataV4(keccak256(abi.encode(USER_OPERATION_TYPEHASH, userOpHash)))
+            : MessageHashUtils.toEthSignedMessageHash(userOpHash);
+
+        // Malformed signatures fail validation instead of reverting, so placeholder signatures can be estimated
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, userOp.signature);
+        if (error != ECDSA.RecoverError.NoError || recovered != owner) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        return SIG_VALIDATION_SUCCESS;
+    }
+}
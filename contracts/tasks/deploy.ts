@@ -0,0 +1,213 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { ModuleParameters } from "@nomicfoundation/ignition-core";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { createGroup, depositForGroup, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI } from "@semaphore-paymaster/sdk";
+import SimpleSemaphorePaymasterModule from "../ignition/modules/SimpleSemaphorePaymaster";
+import CachedSemaphorePaymasterModule from "../ignition/modules/CachedSemaphorePaymaster";
+import GasLimitedSemaphorePaymasterModule from "../ignition/modules/GasLimitedSemaphorePaymaster";
+import ExcubiaeSemaphorePaymasterModule from "../ignition/modules/ExcubiaeSemaphorePaymaster";
+import { ENTRY_POINT_V07 } from "../ignition/params";
+
+const MODULES = {
+    simple: SimpleSemaphorePaymasterModule,
+    cached: CachedSemaphorePaymasterModule,
+    gasLimited: GasLimitedSemaphorePaymasterModule,
+    excubiae: ExcubiaeSemaphorePaymasterModule,
+};
+
+type Variant = keyof typeof MODULES;
+
+interface DeploymentManifest {
+    network: string;
+    chainId: string;
+    paymasters: Partial<Record<Variant, {
+        contractName: string;
+        address: string;
+        entryPoint: string;
+        contracts: Record<string, string>;
+        parameters: Record<string, unknown>;
+        groups: { groupId: string; deposit: string }[];
+        deployedAt: string;
+    }>>;
+}
+
+/**
+ * Module parameters, with "<digits>n" strings read as bigints like `hardhat ignition deploy --parameters` does.
+ */
+function readParameters(file: string): ModuleParameters {
+    const parameters = JSON.parse(readFileSync(file, "utf8"), (_, value) =>
+        typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+    );
+
+    if (typeof parameters !== "object" || parameters === null || Array.isArray(parameters)) {
+        throw new Error(`${file} must hold an object of module parameters`);
+    }
+
+    return parameters;
+}
+
+/**
+ * Group ID of the Excubiae module parameters, 0 when it isn't set.
+ */
+function readGroupId(parameters: ModuleParameters): bigint {
+    const groupId = parameters.groupId ?? 0;
+
+    if ((typeof groupId === "bigint" || (typeof groupId === "number" && Number.isInteger(groupId))) && groupId >= 0) {
+        return BigInt(groupId);
+    }
+
+    throw new Error(`groupId must be a non-negative integer, got ${String(groupId)}`);
+}
+
+/**
+ * maxGasPerUserPerEpoch of the gasLimited groups, which must be set when groups are created: at 0 they can't
+ * sponsor any operation.
+ */
+function readMaxGasPerEpoch(variant: Variant, maxGasPerEpoch: string | undefined, deposits: bigint[]) {
+    if (variant !== "gasLimited" || deposits.length === 0) {
+        return undefined;
+    }
+
+    if (maxGasPerEpoch === undefined) {
+        throw new Error("--max-gas-per-epoch is required to create gasLimited groups");
+    }
+
+    const maxGasPerUserPerEpoch = BigInt(maxGasPerEpoch);
+    if (maxGasPerUserPerEpoch <= 0n) {
+        throw new Error(`--max-gas-per-epoch must be greater than zero, got ${maxGasPerEpoch}`);
+    }
+
+    return maxGasPerUserPerEpoch;
+}
+
+/**
+ * Moves currentEpoch of a gasLimited paymaster to the epoch of the latest block. updateEpoch() reverts before the
+ * first epoch starts, so it is then left to the operator.
+ */
+async function updateEpoch(hre: HardhatRuntimeEnvironment, paymasterAddress: string) {
+    const [signer] = await hre.ethers.getSigners();
+    const paymaster = new hre.ethers.Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, signer);
+    const firstEpochTimestamp: bigint = await paymaster.firstEpochTimestamp();
+    const block = await hre.ethers.provider.getBlock("latest");
+
+    if (block === null || BigInt(block.timestamp) < firstEpochTimestamp) {
+        console.log(`The first epoch starts at ${firstEpochTimestamp}, call updateEpoch() on the paymaster then`);
+        return;
+    }
+
+    await (await paymaster.updateEpoch()).wait();
+    const currentEpoch: bigint = await paymaster.currentEpoch();
+    console.log(`Updated the epoch to ${currentEpoch}, call updateEpoch() at the start of every epoch`);
+}
+
+function readManifest(file: string, network: string, chainId: string): DeploymentManifest {
+    if (!existsSync(file)) {
+        return { network, chainId, paymasters: {} };
+    }
+
+    return JSON.parse(readFileSync(file, "utf8"));
+}
+
+async function fundGroups(
+    hre: HardhatRuntimeEnvironment,
+    variant: Variant,
+    paymasterAddress: string,
+    parameters: ModuleParameters,
+    deposits: bigint[],
+    maxGasPerUserPerEpoch?: bigint
+) {
+    const [signer] = await hre.ethers.getSigners();
+    const groups: { groupId: string; deposit: string }[] = [];
+
+    if (variant === "excubiae") {
+        // The group lives in the Semaphore contract the checker points to, so it is funded but not created
+        if (deposits.length > 1) {
+            throw new Error("The Excubiae paymaster serves a single group, pass one deposit");
+        }
+
+        const groupId = readGroupId(parameters);
+        for (const deposit of deposits) {
+            await depositForGroup(signer, paymasterAddress, groupId, deposit);
+            groups.push({ groupId: groupId.toString(), deposit: deposit.toString() });
+        }
+
+        return groups;
+    }
+
+    for (const deposit of deposits) {
+        const groupId = await createGroup(signer, paymasterAddress);
+
+        if (variant === "gasLimited" && maxGasPerUserPerEpoch !== undefined) {
+            const paymaster = new hre.ethers.Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, signer);
+            await (await paymaster.setMaxGasPerUserPerEpoch(groupId, maxGasPerUserPerEpoch)).wait();
+        }
+
+        await depositForGroup(signer, paymasterAddress, groupId, deposit);
+        groups.push({ groupId: groupId.toString(), deposit: deposit.toString() });
+    }
+
+    return groups;
+}
+
+task("deploy-paymaster", "Deploys a paymaster with Ignition, funds its initial groups and writes deployments/<network>.json")
+    .addParam("variant", "simple, cached, gasLimited or excubiae")
+    .addOptionalParam("parameters", "JSON file with the module parameters (verifier, entryPoint, epoch settings, ...)")
+    .addOptionalParam("groups", "Comma-separated ETH deposits, one group is created and funded per deposit", "")
+    .addOptionalParam(
+        "maxGasPerEpoch",
+        "maxGasPerUserPerEpoch set on the created groups (gasLimited only, required with --groups)",
+        undefined,
+        types.string
+    )
+    .setAction(async (args: { variant: string; parameters?: string; groups: string; maxGasPerEpoch?: string }, hre) => {
+        if (!(args.variant in MODULES)) {
+            throw new Error(`Unknown variant ${args.variant}, expected one of ${Object.keys(MODULES).join(", ")}`);
+        }
+
+        const variant = args.variant as Variant;
+        const module = MODULES[variant];
+        const parameters: ModuleParameters = args.parameters ? readParameters(args.parameters) : {};
+        const deposits = args.groups ? args.groups.split(",").map((amount) => hre.ethers.parseEther(amount.trim())) : [];
+        const maxGasPerUserPerEpoch = readMaxGasPerEpoch(variant, args.maxGasPerEpoch, deposits);
+
+        const deployment = await hre.ignition.deploy(module, { parameters: { [module.id]: parameters } });
+        const paymasterAddress = await deployment.paymaster.getAddress();
+        console.log(`${module.id} deployed at ${paymasterAddress}`);
+
+        if (variant === "gasLimited") {
+            await updateEpoch(hre, paymasterAddress);
+        }
+
+        const groups = await fundGroups(hre, variant, paymasterAddress, parameters, deposits, maxGasPerUserPerEpoch);
+        for (const group of groups) {
+            console.log(`Funded group ${group.groupId} with ${hre.ethers.formatEther(group.deposit)} ETH`);
+        }
+
+        const contracts: Record<string, string> = {};
+        for (const [name, contract] of Object.entries(deployment)) {
+            contracts[name] = await contract.getAddress();
+        }
+
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const file = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        const manifest = readManifest(file, hre.network.name, chainId.toString());
+
+        manifest.paymasters[variant] = {
+            contractName: module.id,
+            address: paymasterAddress,
+            entryPoint: typeof parameters.entryPoint === "string" ? parameters.entryPoint : ENTRY_POINT_V07,
+            contracts,
+            parameters,
+            groups,
+            deployedAt: new Date().toISOString(),
+        };
+
+        mkdirSync(path.dirname(file), { recursive: true });
+        writeFileSync(
+            file,
+            JSON.stringify(manifest, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n"
+        );
+        console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+    });
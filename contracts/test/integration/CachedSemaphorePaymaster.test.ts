@@ -6,8 +6,18 @@ import {
 } from "../../typechain";
 import { expect } from "chai";
 import { Identity, Group } from "@semaphore-protocol/core"
-import { setupProviders, setupSimpleAccount, setupSemaphoreContracts, generateMessage, generatePaymasterData, prepareTransferCallData, prepareUserOp, TestContext, generateCachedPaymasterData } from "../utils/testUtils";
+import { setupProviders, setupSimpleAccount, setupSemaphoreContracts, generateMessage, generatePaymasterData, prepareTransferCallData, prepareUserOp, TestContext, generateCachedPaymasterData, getProofArtifacts, expectPostOpCharge } from "../utils/testUtils";
 import sendUserOpAndWait from "../utils/userOpUtils";
+import {
+  createErc20ApproveCall,
+  createErc20TransferCall,
+  createEthTransferCall,
+  createSmartPaymasterClient,
+  diagnoseUserOperationError,
+  encodeCalls,
+  PaymasterCheck,
+  UserOperationError,
+} from "@semaphore-paymaster/sdk";
 
 const ENABLE_LOGS = false; // Toggle this to enable/disable logging
 const log = (...args: any[]) => ENABLE_LOGS && console.log(...args);
@@ -40,7 +50,8 @@ describe("CachedSemaphorePaymasterTest", () => {
   async function assertSendEth(
     amount: bigint,
     paymasterData: string = "0x",
-    shouldSucceed: boolean = true
+    shouldSucceed: boolean = true,
+    expectedCheck?: PaymasterCheck
   ) {
     // Get initial balance
     const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
@@ -52,15 +63,18 @@ describe("CachedSemaphorePaymasterTest", () => {
     // Create and send user operation
     const userOp = await prepareUserOp(context, callData, await simpleAccount.getAddress(), await cachedSemaphorePaymaster.getAddress(), paymasterData);
 
-    if (shouldSucceed) {
-      await assertSuccessfulTransfer(
-        userOp,
-        recipientBalanceBefore,
-        amount
-      );
-    } else {
-      await assertFailedTransfer(userOp);
+    if (!shouldSucceed) {
+      await assertFailedTransfer(userOp, expectedCheck);
+      return { userOp };
     }
+
+    const receipt = await assertSuccessfulTransfer(
+      userOp,
+      recipientBalanceBefore,
+      amount
+    );
+
+    return { userOp, receipt };
   }
 
   async function assertSuccessfulTransfer(
@@ -79,16 +93,25 @@ describe("CachedSemaphorePaymasterTest", () => {
 
     expect(receipt.success).to.be.true;
     expect(balanceAfter).to.equal(balanceBefore + amount);
+
+    return receipt;
   }
 
-  async function assertFailedTransfer(userOp: any) {
-    await expect(
-      sendUserOpAndWait(
-        userOp,
-        context.entryPointAddress,
-        context.bundlerProvider
-      )
-    ).to.be.rejected;
+  async function assertFailedTransfer(userOp: any, expectedCheck?: PaymasterCheck) {
+    const error = await sendUserOpAndWait(
+      userOp,
+      context.entryPointAddress,
+      context.bundlerProvider
+    ).catch((error) => error);
+
+    // Every check of the paymaster fails validation with AA34, the pre-flight checks name the one that failed
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.code).to.equal("AA34");
+
+    if (expectedCheck) {
+      const diagnosed = await diagnoseUserOperationError(context.provider, "cached", userOp, error);
+      expect(diagnosed.checks).to.include(expectedCheck);
+    }
   }
 
   beforeEach(async () => {
@@ -164,7 +187,7 @@ describe("CachedSemaphorePaymasterTest", () => {
 
   it("should execute a simple ETH transfer with new proof", async () => {
     const message = await generateMessage(simpleAccount)
-    const paymasterData = await generateCachedPaymasterData(id1, group, message, groupId, false)
+    const paymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), false)
     log("  └─ Paymaster Data:", paymasterData)
     await assertSendEth(transferAmount, paymasterData);
   });
@@ -172,28 +195,52 @@ describe("CachedSemaphorePaymasterTest", () => {
   it("should use cached proof for subsequent transfers", async () => {
     // First transfer with new proof
     const message = await generateMessage(simpleAccount)
-    const initialPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, false)
+    const initialPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), false)
     await assertSendEth(transferAmount, initialPaymasterData);
 
     // Second transfer using cached proof
-    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, true)
+    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), true)
     await assertSendEth(transferAmount, cachedPaymasterData);
   });
 
+  it("should run a batch of calls under one proof", async () => {
+    const token = await (await ethers.getContractFactory("MockERC20")).deploy();
+    await token.waitForDeployment();
+    const tokenAddress = await token.getAddress();
+    const accountAddress = await simpleAccount.getAddress();
+    const tokenAmount = ethers.parseEther("5");
+    await token.mint(accountAddress, tokenAmount);
+
+    const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
+    const callData = encodeCalls([
+      createErc20ApproveCall(tokenAddress, recipientAddress, tokenAmount),
+      createErc20TransferCall(tokenAddress, recipientAddress, tokenAmount),
+      createEthTransferCall(recipientAddress, transferAmount),
+    ]);
+
+    const message = await generateMessage(simpleAccount);
+    const paymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), false);
+    const userOp = await prepareUserOp(context, callData, accountAddress, await cachedSemaphorePaymaster.getAddress(), paymasterData);
+
+    await assertSuccessfulTransfer(userOp, recipientBalanceBefore, transferAmount);
+    expect(await token.balanceOf(recipientAddress)).to.equal(tokenAmount);
+    expect(await token.allowance(accountAddress, recipientAddress)).to.equal(tokenAmount);
+  });
+
   it("should allow multiple users to cache and use their proofs", async () => {
     // First user (id1)
     const message1 = await generateMessage(simpleAccount);
-    const paymasterData1 = await generateCachedPaymasterData(id1, group, message1, groupId, false);
+    const paymasterData1 = await generateCachedPaymasterData(id1, group, message1, groupId, await cachedSemaphorePaymaster.getAddress(), false);
     await assertSendEth(transferAmount, paymasterData1, true);
 
     // Second user (id2)
     const message2 = await generateMessage(simpleAccount);
-    const paymasterData2 = await generateCachedPaymasterData(id2, group, message2, groupId, false);
+    const paymasterData2 = await generateCachedPaymasterData(id2, group, message2, groupId, await cachedSemaphorePaymaster.getAddress(), false);
     await assertSendEth(transferAmount, paymasterData2, true);
 
     // Both users use cached proofs
-    const cachedData1 = await generateCachedPaymasterData(id1, group, message1, groupId, true);
-    const cachedData2 = await generateCachedPaymasterData(id2, group, message2, groupId, true);
+    const cachedData1 = await generateCachedPaymasterData(id1, group, message1, groupId, await cachedSemaphorePaymaster.getAddress(), true);
+    const cachedData2 = await generateCachedPaymasterData(id2, group, message2, groupId, await cachedSemaphorePaymaster.getAddress(), true);
     await assertSendEth(transferAmount, cachedData1, true);
     await assertSendEth(transferAmount, cachedData2, true);
   });
@@ -203,25 +250,54 @@ describe("CachedSemaphorePaymasterTest", () => {
 
     // First transfer with new proof
     const message = await generateMessage(simpleAccount);
-    const initialPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, false);
-    await assertSendEth(transferAmount, initialPaymasterData);
+    const initialPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), false);
+    const fresh = await assertSendEth(transferAmount, initialPaymasterData);
 
     const midDeposit = await cachedSemaphorePaymaster.groupDeposits(groupId);
-    expect(midDeposit).to.be.lessThan(initialDeposit);
+    expectPostOpCharge(initialDeposit - midDeposit, fresh.userOp, fresh.receipt!);
 
     // Second transfer using cached proof
-    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, true);
-    await assertSendEth(transferAmount, cachedPaymasterData);
+    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), true);
+    const cached = await assertSendEth(transferAmount, cachedPaymasterData);
 
     const finalDeposit = await cachedSemaphorePaymaster.groupDeposits(groupId);
-    expect(finalDeposit).to.be.lessThan(midDeposit);
+    expectPostOpCharge(midDeposit - finalDeposit, cached.userOp, cached.receipt!);
+  });
+
+  it("should send the cached form only while the cached proof is valid", async () => {
+    const smart = createSmartPaymasterClient({
+      paymasterAddress: await cachedSemaphorePaymaster.getAddress(),
+      entryPointAddress: context.entryPointAddress,
+      provider: context.provider,
+      bundlerProvider: context.bundlerProvider,
+      artifacts: await getProofArtifacts(),
+    }, "cached");
+    const sender = await simpleAccount.getAddress();
+    const send = () => smart.sendUserOperation({
+      sender,
+      callData: prepareTransferCallData(recipientAddress, transferAmount),
+      identity: id1,
+      group: async () => group,
+      groupId,
+    });
+
+    // Nothing is cached yet, then the fresh proof is
+    expect(await send()).to.deep.include({ useCache: false, attempts: 1 });
+    expect(await send()).to.deep.include({ useCache: true, attempts: 1 });
+
+    // A new member moves the root, so the cached proof no longer passes
+    const id4 = new Identity();
+    await cachedSemaphorePaymaster.addMember(groupId, id4.commitment);
+    group.addMember(id4.commitment);
+    expect(await smart.readCachedProofState(sender, id1, groupId)).to.deep.include({ useCache: false, merkleTreeRoot: group.root });
+    expect(await send()).to.deep.include({ useCache: false, attempts: 1 });
   });
 
   it("should fail when using cache before proof is validated", async () => {
     const message = await generateMessage(simpleAccount);
     // Try to use cache immediately without submitting proof first
-    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, true);
-    await assertSendEth(transferAmount, cachedPaymasterData, false);
+    const cachedPaymasterData = await generateCachedPaymasterData(id1, group, message, groupId, await cachedSemaphorePaymaster.getAddress(), true);
+    await assertSendEth(transferAmount, cachedPaymasterData, false, "STALE_MERKLE_ROOT");
   });
 
   it("should fail when group has insufficient balance", async () => {
@@ -231,13 +307,13 @@ describe("CachedSemaphorePaymasterTest", () => {
     await cachedSemaphorePaymaster.addMembers(newGroupId, group.members);
 
     const message = await generateMessage(simpleAccount);
-    const paymasterData = await generateCachedPaymasterData(id1, group, message, newGroupId, false);
-    await assertSendEth(transferAmount, paymasterData, false);
+    const paymasterData = await generateCachedPaymasterData(id1, group, message, newGroupId, await cachedSemaphorePaymaster.getAddress(), false);
+    await assertSendEth(transferAmount, paymasterData, false, "INSUFFICIENT_GROUP_DEPOSIT");
   });
 
   it("should fail with invalid message", async () => {
     const invalidMessage = 12345n; // Wrong message format
-    const paymasterData = await generateCachedPaymasterData(id1, group, invalidMessage, groupId, false);
-    await assertSendEth(transferAmount, paymasterData, false);
+    const paymasterData = await generateCachedPaymasterData(id1, group, invalidMessage, groupId, await cachedSemaphorePaymaster.getAddress(), false);
+    await assertSendEth(transferAmount, paymasterData, false, "INVALID_MESSAGE");
   });
 });
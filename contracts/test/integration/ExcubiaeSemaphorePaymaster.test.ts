@@ -6,8 +6,9 @@ import {
 } from "../../typechain";
 import { expect } from "chai";
 import { Identity, Group } from "@semaphore-protocol/core"
-import { setupProviders, setupSimpleAccount, prepareTransferCallData, prepareUserOp, TestContext, setupExcubiaeSemaphorePaymasterContracts, generateExcubiaePaymasterData } from "../utils/testUtils";
+import { setupProviders, setupSimpleAccount, prepareTransferCallData, prepareUserOp, TestContext, setupExcubiaeSemaphorePaymasterContracts, generateExcubiaePaymasterData, expectPostOpCharge } from "../utils/testUtils";
 import sendUserOpAndWait from "../utils/userOpUtils";
+import { diagnoseUserOperationError, PaymasterCheck, UserOperationError } from "@semaphore-paymaster/sdk";
 
 const ENABLE_LOGS = false; // Toggle this to enable/disable logging
 const log = (...args: any[]) => ENABLE_LOGS && console.log(...args);
@@ -44,7 +45,8 @@ describe("ExcubiaePaymasterTest", () => {
   async function assertSendEth(
     amount: bigint,
     paymasterData: string = "0x",
-    shouldSucceed: boolean = true
+    shouldSucceed: boolean = true,
+    expectedCheck?: PaymasterCheck
   ) {
     // Get initial balance
     const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
@@ -63,7 +65,7 @@ describe("ExcubiaePaymasterTest", () => {
         amount
       );
     } else {
-      await assertFailedTransfer(userOp);
+      await assertFailedTransfer(userOp, expectedCheck);
     }
   }
 
@@ -85,14 +87,21 @@ describe("ExcubiaePaymasterTest", () => {
     expect(balanceAfter).to.equal(balanceBefore + amount);
   }
 
-  async function assertFailedTransfer(userOp: any) {
-    await expect(
-      sendUserOpAndWait(
-        userOp,
-        context.entryPointAddress,
-        context.bundlerProvider
-      )
-    ).to.be.rejected;
+  async function assertFailedTransfer(userOp: any, expectedCheck?: PaymasterCheck) {
+    const error = await sendUserOpAndWait(
+      userOp,
+      context.entryPointAddress,
+      context.bundlerProvider
+    ).catch((error) => error);
+
+    // Every check of the paymaster fails validation with AA34, the pre-flight checks name the one that failed
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.code).to.equal("AA34");
+
+    if (expectedCheck) {
+      const diagnosed = await diagnoseUserOperationError(context.provider, "excubiae", userOp, error);
+      expect(diagnosed.checks).to.include(expectedCheck);
+    }
   }
 
   beforeEach(async () => {
@@ -207,23 +216,24 @@ describe("ExcubiaePaymasterTest", () => {
   it("should fail when group has insufficient balance", async () => {
     const paymasterData = await generateExcubiaePaymasterData(invalidGroupId, validEvidence)
 
-    await assertSendEth(transferAmount, paymasterData, false);
+    await assertSendEth(transferAmount, paymasterData, false, "INSUFFICIENT_GROUP_DEPOSIT");
   });
   
   it("should fail with invalid proof", async () => {
     const paymasterData = await generateExcubiaePaymasterData(validGroupId, invalidEvidence)
 
-    await assertSendEth(transferAmount, paymasterData, false);
+    await assertSendEth(transferAmount, paymasterData, false, "INVALID_GROUP_ID");
   });
 
   it("should fail with invalid group id", async () => {
     const paymasterData = await generateExcubiaePaymasterData(invalidGroupId, validEvidence)
 
-    await assertSendEth(transferAmount, paymasterData, false);
+    await assertSendEth(transferAmount, paymasterData, false, "INVALID_GROUP_ID");
   });
 
   it("should track group deposits correctly after transactions", async () => {
     const initialDeposit = await excubiaeSemaphorePaymaster.groupDeposits(validGroupId);
+    const initialPaymasterDeposit = await excubiaeSemaphorePaymaster.getDeposit();
 
     const paymasterData = await generateExcubiaePaymasterData(validGroupId, validEvidence);
 
@@ -242,6 +252,10 @@ describe("ExcubiaePaymasterTest", () => {
     );
 
     const finalDeposit = await excubiaeSemaphorePaymaster.groupDeposits(validGroupId);
-    expect(finalDeposit).to.be.lessThan(initialDeposit);
+
+    // The EntryPoint takes actualGasCost from the paymaster, _postOp charges the group
+    // what it was called with, which leaves out the gas of postOp itself
+    expect(await excubiaeSemaphorePaymaster.getDeposit()).to.equal(initialPaymasterDeposit - receipt.actualGasCost);
+    expectPostOpCharge(initialDeposit - finalDeposit, userOp, receipt);
   });
 });
@@ -6,8 +6,9 @@ import {
 } from "../../typechain";
 import { expect } from "chai";
 import { Identity, Group } from "@semaphore-protocol/core"
-import { setupProviders, setupSimpleAccount, setupSemaphoreContracts, generateMessage, generateGasLimitedPaymasterData, prepareTransferCallData, prepareUserOp, TestContext } from "../utils/testUtils";
+import { setupProviders, setupSimpleAccount, setupSemaphoreContracts, generateMessage, generateGasLimitedPaymasterData, prepareTransferCallData, prepareUserOp, TestContext, expectPostOpCharge } from "../utils/testUtils";
 import sendUserOpAndWait from "../utils/userOpUtils";
+import { diagnoseUserOperationError, PaymasterCheck, UserOperationError } from "@semaphore-paymaster/sdk";
 
 const ENABLE_LOGS = false; // Toggle this to enable/disable logging
 const log = (...args: any[]) => ENABLE_LOGS && console.log(...args);
@@ -42,7 +43,8 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
     async function assertSendEth(
         amount: bigint,
         paymasterData: string = "0x",
-        shouldSucceed: boolean = true
+        shouldSucceed: boolean = true,
+        expectedCheck?: PaymasterCheck
     ) {
         // Get initial balance
         const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
@@ -54,15 +56,18 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
         // Create and send user operation
         const userOp = await prepareUserOp(context, callData, await simpleAccount.getAddress(), await gasLimitedSemaphorePaymaster.getAddress(), paymasterData);
 
-        if (shouldSucceed) {
-            await assertSuccessfulTransfer(
-                userOp,
-                recipientBalanceBefore,
-                amount
-            );
-        } else {
-            await assertFailedTransfer(userOp);
+        if (!shouldSucceed) {
+            await assertFailedTransfer(userOp, expectedCheck);
+            return { userOp };
         }
+
+        const receipt = await assertSuccessfulTransfer(
+            userOp,
+            recipientBalanceBefore,
+            amount
+        );
+
+        return { userOp, receipt };
     }
 
     async function assertSuccessfulTransfer(
@@ -81,16 +86,25 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
 
         expect(receipt.success).to.be.true;
         expect(balanceAfter).to.equal(balanceBefore + amount);
+
+        return receipt;
     }
 
-    async function assertFailedTransfer(userOp: any) {
-        await expect(
-            sendUserOpAndWait(
-                userOp,
-                context.entryPointAddress,
-                context.bundlerProvider
-            )
-        ).to.be.rejected;
+    async function assertFailedTransfer(userOp: any, expectedCheck?: PaymasterCheck) {
+        const error = await sendUserOpAndWait(
+            userOp,
+            context.entryPointAddress,
+            context.bundlerProvider
+        ).catch((error) => error);
+
+        // Every check of the paymaster fails validation with AA34, the pre-flight checks name the one that failed
+        expect(error).to.be.instanceOf(UserOperationError);
+        expect(error.code).to.equal("AA34");
+
+        if (expectedCheck) {
+            const diagnosed = await diagnoseUserOperationError(context.provider, "gasLimited", userOp, error);
+            expect(diagnosed.checks).to.include(expectedCheck);
+        }
     }
 
     beforeEach(async () => {
@@ -179,20 +193,30 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
     it("should execute a simple ETH transfer with new proof", async () => {
         const message = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
         log("  └─ Paymaster Data:", paymasterData)
         await assertSendEth(transferAmount, paymasterData.paymasterData);
     });
 
+    it("should reject a proof scoped to another paymaster deployment", async () => {
+        // Same group, chain, epoch and sender, but the scope binds the proof to another paymaster address
+        const message = await generateMessage(simpleAccount)
+        const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
+        const otherPaymasterAddress = ethers.Wallet.createRandom().address
+        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, otherPaymasterAddress, false)
+
+        await assertSendEth(transferAmount, paymasterData.paymasterData, false, "INVALID_SCOPE");
+    });
+
     it("should execute a transfer with cached proof", async () => {
         // First execute with new proof to cache it
         const message = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
         await assertSendEth(transferAmount, newProofData.paymasterData);
 
         // Then execute using cached proof
-        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, true)
+        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), true)
         log("  └─ Cached Paymaster Data:", cachedProofData)
         await assertSendEth(transferAmount, cachedProofData.paymasterData);
     });
@@ -200,21 +224,24 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
     it("should track gas usage across multiple operations", async () => {
         const message = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         // Execute multiple transactions to accumulate gas usage
         for (let i = 0; i < 3; i++) {
             log(`\n📝 Executing transaction ${i + 1}`)
-            await assertSendEth(transferAmount, paymasterData.paymasterData);
-        }
+            const gasUsedBefore = (await gasLimitedSemaphorePaymaster.gasData(paymasterData.nullifier)).gasUsed;
+            const { userOp, receipt } = await assertSendEth(transferAmount, paymasterData.paymasterData);
+            const gasUsedAfter = (await gasLimitedSemaphorePaymaster.gasData(paymasterData.nullifier)).gasUsed;
 
-        // The transactions should succeed since they're under the gas limit
+            // _postOp adds what it was called with, which leaves out the gas of postOp itself
+            expectPostOpCharge(gasUsedAfter - gasUsedBefore, userOp, receipt!);
+        }
     });
 
     it("should reject operations when gas limit is exceeded", async () => {
         const message = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         // First transaction to measure gas usage
         await assertSendEth(transferAmount, paymasterData.paymasterData);
@@ -229,7 +256,7 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
         log("  └─ Set gas limit to", ethers.formatEther(gasLimit), "ETH");
 
         // Second transaction should fail due to gas limit
-        await assertSendEth(transferAmount, paymasterData.paymasterData, false);
+        await assertSendEth(transferAmount, paymasterData.paymasterData, false, "GAS_LIMIT_EXCEEDED");
 
         // Reset gas limit for other tests
         await gasLimitedSemaphorePaymaster.setMaxGasPerUserPerEpoch(groupId, ethers.parseEther("5"));
@@ -238,10 +265,10 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
     it("should allow operations from different users within the same epoch", async () => {
         const message1 = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const paymasterData1 = await generateGasLimitedPaymasterData(id1, group, message1, groupId, epoch, false)
+        const paymasterData1 = await generateGasLimitedPaymasterData(id1, group, message1, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         const message2 = await generateMessage(simpleAccount)
-        const paymasterData2 = await generateGasLimitedPaymasterData(id2, group, message2, groupId, epoch, false)
+        const paymasterData2 = await generateGasLimitedPaymasterData(id2, group, message2, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         // Both users should be able to execute transactions
         await assertSendEth(transferAmount, paymasterData1.paymasterData);
@@ -251,7 +278,7 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
     it("should reset gas usage after epoch change", async () => {
         const message = await generateMessage(simpleAccount)
         let epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const paymasterData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         // Use most of the gas limit
         await assertSendEth(ethers.parseEther("0.005"), paymasterData.paymasterData);
@@ -279,7 +306,7 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
         // Generate new proof for new epoch
         const newMessage = await generateMessage(simpleAccount)
         epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const newProofData = await generateGasLimitedPaymasterData(id1, group, newMessage, groupId, epoch, false)
+        const newProofData = await generateGasLimitedPaymasterData(id1, group, newMessage, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
 
         // Check gas usage after epoch change
         const gasUsedAfterEpochChange = (await gasLimitedSemaphorePaymaster.gasData(newProofData.nullifier)).gasUsed;
@@ -297,7 +324,7 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
         // First execute with new proof to cache it
         const message = await generateMessage(simpleAccount)
         const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
         await assertSendEth(transferAmount, newProofData.paymasterData);
 
         // Change merkle root by adding a new member
@@ -305,15 +332,15 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
         await gasLimitedSemaphorePaymaster.addMember(groupId, newCommitment);
         log("  └─ Added new member to change merkle root");
 
-        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, true)
-        await assertSendEth(transferAmount, cachedProofData.paymasterData, false);
+        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), true)
+        await assertSendEth(transferAmount, cachedProofData.paymasterData, false, "STALE_MERKLE_ROOT");
     });
 
     it("should reject cached proof after epoch change", async () => {
         // First execute with new proof to cache it
         const message = await generateMessage(simpleAccount)
         let epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, false)
+        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
         await assertSendEth(transferAmount, newProofData.paymasterData);
 
         // Mine enough blocks to advance time past the epoch duration
@@ -334,7 +361,35 @@ describe("GasLimitedSemaphorePaymasterTest", () => {
 
         // Try to use cached proof after epoch change
         epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
-        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, true)
-        await assertSendEth(transferAmount, cachedProofData.paymasterData, false);
+        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), true)
+        await assertSendEth(transferAmount, cachedProofData.paymasterData, false, "STALE_EPOCH");
+    });
+
+    it("should reject a cached nullifier replayed by another account", async () => {
+        // id1 caches its nullifier with a fresh proof from its own account
+        const message = await generateMessage(simpleAccount)
+        const epoch = await gasLimitedSemaphorePaymaster.currentEpoch()
+        const newProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), false)
+        await assertSendEth(transferAmount, newProofData.paymasterData);
+        expect((await gasLimitedSemaphorePaymaster.gasData(newProofData.nullifier)).sender).to.equal(await simpleAccount.getAddress());
+
+        // The nullifier is public once the operation is included, another account copies it into the cached form
+        const otherAccount = await setupSimpleAccount(context.entryPointAddress);
+        await owner.sendTransaction({ to: await otherAccount.getAddress(), value: ethers.parseEther("10") });
+        const gasUsedBefore = (await gasLimitedSemaphorePaymaster.gasData(newProofData.nullifier)).gasUsed;
+
+        const cachedProofData = await generateGasLimitedPaymasterData(id1, group, message, groupId, epoch, await gasLimitedSemaphorePaymaster.getAddress(), true)
+        const userOp = await prepareUserOp(
+            context,
+            prepareTransferCallData(recipientAddress, transferAmount),
+            await otherAccount.getAddress(),
+            await gasLimitedSemaphorePaymaster.getAddress(),
+            cachedProofData.paymasterData
+        );
+        await assertFailedTransfer(userOp, "INVALID_SENDER");
+
+        // id1's budget is untouched and its own account can still use the cached form
+        expect((await gasLimitedSemaphorePaymaster.gasData(newProofData.nullifier)).gasUsed).to.equal(gasUsedBefore);
+        await assertSendEth(transferAmount, cachedProofData.paymasterData);
     });
-}); 
\ No newline at end of file
+});
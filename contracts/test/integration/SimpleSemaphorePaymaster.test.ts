@@ -6,8 +6,16 @@ import {
 } from "../../typechain";
 import { expect } from "chai";
 import { Identity, Group } from "@semaphore-protocol/core"
-import { setupProviders, setupSimpleAccount, setupSemaphoreContracts, generateMessage, generatePaymasterData, prepareTransferCallData, prepareUserOp, TestContext } from "../utils/testUtils";
+import { setupProviders, setupSimpleAccount, setupCounterfactualSimpleAccount, setupSemaphoreContracts, generateMessage, generatePaymasterData, prepareTransferCallData, prepareUserOp, TestContext, expectPostOpCharge } from "../utils/testUtils";
 import sendUserOpAndWait from "../utils/userOpUtils";
+import {
+  createNonceManager,
+  createSimplePaymasterClient,
+  decodeNonce,
+  diagnoseUserOperationError,
+  PaymasterCheck,
+  UserOperationError,
+} from "@semaphore-paymaster/sdk";
 
 const ENABLE_LOGS = false; // Toggle this to enable/disable logging
 const log = (...args: any[]) => ENABLE_LOGS && console.log(...args);
@@ -40,7 +48,8 @@ describe("SimplePaymasterTest", () => {
   async function assertSendEth(
     amount: bigint,
     paymasterData: string = "0x",
-    shouldSucceed: boolean = true
+    shouldSucceed: boolean = true,
+    expectedCheck?: PaymasterCheck
   ) {
     // Get initial balance
     const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
@@ -59,7 +68,7 @@ describe("SimplePaymasterTest", () => {
         amount
       );
     } else {
-      await assertFailedTransfer(userOp);
+      await assertFailedTransfer(userOp, expectedCheck);
     }
   }
 
@@ -81,14 +90,21 @@ describe("SimplePaymasterTest", () => {
     expect(balanceAfter).to.equal(balanceBefore + amount);
   }
 
-  async function assertFailedTransfer(userOp: any) {
-    await expect(
-      sendUserOpAndWait(
-        userOp,
-        context.entryPointAddress,
-        context.bundlerProvider
-      )
-    ).to.be.rejected;
+  async function assertFailedTransfer(userOp: any, expectedCheck?: PaymasterCheck) {
+    const error = await sendUserOpAndWait(
+      userOp,
+      context.entryPointAddress,
+      context.bundlerProvider
+    ).catch((error) => error);
+
+    // Every check of the paymaster fails validation with AA34, the pre-flight checks name the one that failed
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.code).to.equal("AA34");
+
+    if (expectedCheck) {
+      const diagnosed = await diagnoseUserOperationError(context.provider, "simple", userOp, error);
+      expect(diagnosed.checks).to.include(expectedCheck);
+    }
   }
 
   beforeEach(async () => {
@@ -164,25 +180,106 @@ describe("SimplePaymasterTest", () => {
 
   it("should execute a simple ETH transfer", async () => {
     const message = await generateMessage(simpleAccount)
-    const paymasterData = await generatePaymasterData(id1, group, message, groupId)
+    const paymasterData = await generatePaymasterData(id1, group, message, groupId, await simpleSemaphorePaymaster.getAddress())
     log("  └─ Paymaster Data:", paymasterData)
     await assertSendEth(transferAmount, paymasterData);
   });
 
   it("should send 2 more eth", async () => {
     const message = await generateMessage(simpleAccount)
-    const paymasterData = await generatePaymasterData(id1, group, message, groupId)
+    const paymasterData = await generatePaymasterData(id1, group, message, groupId, await simpleSemaphorePaymaster.getAddress())
     log("  └─ Paymaster Data:", paymasterData)
     await assertSendEth(ethers.parseEther("2"), paymasterData);
   });
 
   it("should allow proof reuse", async () => {
     const message = await generateMessage(simpleAccount)
-    const paymasterData = await generatePaymasterData(id1, group, message, groupId)
+    const paymasterData = await generatePaymasterData(id1, group, message, groupId, await simpleSemaphorePaymaster.getAddress())
     await assertSendEth(ethers.parseEther("2"), paymasterData, true); // first time should succeed
     await assertSendEth(ethers.parseEther("2"), paymasterData, true); // second time should succeed
   });
 
+  it("should estimate with placeholder paymaster data before generating the proof", async () => {
+    const client = createSimplePaymasterClient({
+      paymasterAddress: await simpleSemaphorePaymaster.getAddress(),
+      entryPointAddress: context.entryPointAddress,
+      provider: context.provider,
+      bundlerProvider: context.bundlerProvider,
+    });
+    const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
+
+    const userOp = await client.buildUserOperation({
+      sender: await simpleAccount.getAddress(),
+      callData: prepareTransferCallData(recipientAddress, transferAmount),
+      groupId,
+      generatePaymasterData: async (op) => generatePaymasterData(id1, group, BigInt(op.sender), groupId, await simpleSemaphorePaymaster.getAddress()),
+    });
+
+    await assertSuccessfulTransfer(userOp, recipientBalanceBefore, transferAmount);
+  });
+
+  it("should deploy a counterfactual account and sponsor its first call in one operation", async () => {
+    const { sender, deployed, factoryParams } = await setupCounterfactualSimpleAccount(context.entryPointAddress);
+    expect(deployed).to.be.false;
+
+    // The account pays the transfer value itself, so it is funded before it exists
+    await owner.sendTransaction({ to: sender, value: transferAmount });
+    const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
+    const groupDepositBefore = await simpleSemaphorePaymaster.groupDeposits(groupId);
+
+    // The proof message binds to the counterfactual sender
+    const paymasterData = await generatePaymasterData(id1, group, BigInt(sender), groupId, await simpleSemaphorePaymaster.getAddress());
+    const userOp = await prepareUserOp(
+      context,
+      prepareTransferCallData(recipientAddress, transferAmount),
+      sender,
+      await simpleSemaphorePaymaster.getAddress(),
+      paymasterData,
+      undefined,
+      factoryParams
+    );
+
+    await assertSuccessfulTransfer(userOp, recipientBalanceBefore, transferAmount);
+    expect(await context.provider.getCode(sender)).to.not.equal("0x");
+    expect(await simpleSemaphorePaymaster.groupDeposits(groupId)).to.be.lessThan(groupDepositBefore);
+  });
+
+  it("should send operations built in parallel on different nonce keys", async () => {
+    const sender = await simpleAccount.getAddress();
+    const paymasterAddress = await simpleSemaphorePaymaster.getAddress();
+    const nonceManager = createNonceManager(context.provider, context.entryPointAddress);
+    const paymasterData = await generatePaymasterData(id1, group, await generateMessage(simpleAccount), groupId, paymasterAddress);
+
+    // Both operations are built before either is sent, each on a key of its own
+    const nonces = [await nonceManager.acquire(sender), await nonceManager.acquire(sender)];
+    expect(nonces.map((nonce) => decodeNonce(nonce).key)).to.deep.equal([0n, 1n]);
+
+    const userOps = await Promise.all(
+      nonces.map((nonce) =>
+        prepareUserOp(
+          context,
+          prepareTransferCallData(recipientAddress, transferAmount),
+          sender,
+          paymasterAddress,
+          paymasterData,
+          undefined,
+          undefined,
+          nonce
+        )
+      )
+    );
+
+    const recipientBalanceBefore = await context.provider.getBalance(recipientAddress);
+    for (const [i, userOp] of userOps.entries()) {
+      const receipt = await sendUserOpAndWait(userOp, context.entryPointAddress, context.bundlerProvider);
+      expect(receipt.success).to.be.true;
+      nonceManager.release(sender, nonces[i]);
+    }
+
+    expect(await context.provider.getBalance(recipientAddress)).to.equal(recipientBalanceBefore + transferAmount * 2n);
+    expect(nonceManager.inFlightKeys(sender)).to.deep.equal([]);
+  });
+
   it("should allow deposits for a group", async () => {
     const depositAmount = ethers.parseEther("5");
     const initialDeposit = await simpleSemaphorePaymaster.groupDeposits(groupId);
@@ -206,35 +303,45 @@ describe("SimplePaymasterTest", () => {
     await simpleSemaphorePaymaster.addMembers(newGroupId, group.members);
 
     const message = await generateMessage(simpleAccount);
-    const paymasterData = await generatePaymasterData(id1, group, message, newGroupId);
+    const paymasterData = await generatePaymasterData(id1, group, message, newGroupId, await simpleSemaphorePaymaster.getAddress());
 
-    await assertSendEth(transferAmount, paymasterData, false);
+    await assertSendEth(transferAmount, paymasterData, false, "INSUFFICIENT_GROUP_DEPOSIT");
   });
 
   it("should fail with invalid message", async () => {
     const invalidMessage = 12345n; // Wrong message format
-    const paymasterData = await generatePaymasterData(id1, group, invalidMessage, groupId);
+    const paymasterData = await generatePaymasterData(id1, group, invalidMessage, groupId, await simpleSemaphorePaymaster.getAddress());
 
-    await assertSendEth(transferAmount, paymasterData, false);
+    await assertSendEth(transferAmount, paymasterData, false, "INVALID_MESSAGE");
+  });
+
+  it("should reject a proof scoped to another paymaster deployment", async () => {
+    // Same group, chain and sender, but the scope binds the proof to another paymaster address
+    const message = await generateMessage(simpleAccount);
+    const otherPaymasterAddress = ethers.Wallet.createRandom().address;
+    const paymasterData = await generatePaymasterData(id1, group, message, groupId, otherPaymasterAddress);
+
+    await assertSendEth(transferAmount, paymasterData, false, "INVALID_SCOPE");
   });
 
   it("should allow multiple users from same group to send transactions", async () => {
     // First user (id1)
     const message1 = await generateMessage(simpleAccount);
-    const paymasterData1 = await generatePaymasterData(id1, group, message1, groupId);
+    const paymasterData1 = await generatePaymasterData(id1, group, message1, groupId, await simpleSemaphorePaymaster.getAddress());
     await assertSendEth(transferAmount, paymasterData1, true);
 
     // Second user (id2)
     const message2 = await generateMessage(simpleAccount);
-    const paymasterData2 = await generatePaymasterData(id2, group, message2, groupId);
+    const paymasterData2 = await generatePaymasterData(id2, group, message2, groupId, await simpleSemaphorePaymaster.getAddress());
     await assertSendEth(transferAmount, paymasterData2, true);
   });
 
   it("should track group deposits correctly after transactions", async () => {
     const initialDeposit = await simpleSemaphorePaymaster.groupDeposits(groupId);
+    const initialPaymasterDeposit = await simpleSemaphorePaymaster.getDeposit();
 
     const message = await generateMessage(simpleAccount);
-    const paymasterData = await generatePaymasterData(id1, group, message, groupId);
+    const paymasterData = await generatePaymasterData(id1, group, message, groupId, await simpleSemaphorePaymaster.getAddress());
 
     // Send transaction and track gas usage
     const userOp = await prepareUserOp(
@@ -251,7 +358,11 @@ describe("SimplePaymasterTest", () => {
     );
 
     const finalDeposit = await simpleSemaphorePaymaster.groupDeposits(groupId);
-    expect(finalDeposit).to.be.lessThan(initialDeposit);
+
+    // The EntryPoint takes actualGasCost from the paymaster, _postOp charges the group
+    // what it was called with, which leaves out the gas of postOp itself
+    expect(await simpleSemaphorePaymaster.getDeposit()).to.equal(initialPaymasterDeposit - receipt.actualGasCost);
+    expectPostOpCharge(initialDeposit - finalDeposit, userOp, receipt);
   });
 
 });
@@ -0,0 +1,98 @@
+import { ethers } from "hardhat";
+import { Signer, Wallet } from "ethers";
+import { SimpleSemaphorePaymaster, VerifyingSimpleAccount } from "../../typechain";
+import { expect } from "chai";
+import { Identity, Group } from "@semaphore-protocol/core"
+import { setupProviders, setupSemaphoreContracts, setupVerifyingSimpleAccount, generatePaymasterData, prepareTransferCallData, prepareUserOp, TestContext } from "../utils/testUtils";
+import sendUserOpAndWait from "../utils/userOpUtils";
+import {
+  createEthersUserOpSigner,
+  createPrivateKeyUserOpSigner,
+  createTypedDataUserOpSigner,
+  UserOperationError,
+  UserOperationSigner,
+} from "@semaphore-paymaster/sdk";
+
+describe("VerifyingSimpleAccountTest", () => {
+  let context: TestContext;
+  let owner: Signer;
+  let accountOwner: Wallet;
+  let simpleSemaphorePaymaster: SimpleSemaphorePaymaster;
+  let group: Group;
+  let id1: Identity;
+  const groupId = 0;
+  const recipientAddress = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+  const transferAmount = ethers.parseEther("1");
+
+  async function setupAccount(typedData: boolean): Promise<VerifyingSimpleAccount> {
+    const account = await setupVerifyingSimpleAccount(context.entryPointAddress, accountOwner, typedData);
+    await owner.sendTransaction({ to: await account.getAddress(), value: ethers.parseEther("10") });
+    return account;
+  }
+
+  async function sendEth(account: VerifyingSimpleAccount, signer: UserOperationSigner) {
+    const sender = await account.getAddress();
+    const paymasterData = await generatePaymasterData(id1, group, BigInt(sender), groupId, await simpleSemaphorePaymaster.getAddress());
+    const userOp = await prepareUserOp(
+      context,
+      prepareTransferCallData(recipientAddress, transferAmount),
+      sender,
+      await simpleSemaphorePaymaster.getAddress(),
+      paymasterData,
+      signer
+    );
+
+    return sendUserOpAndWait(userOp, context.entryPointAddress, context.bundlerProvider);
+  }
+
+  beforeEach(async () => {
+    const { provider, bundlerProvider, entryPointAddress } = await setupProviders();
+    const [admin, ownerSigner, id1Pk] = await ethers.getSigners();
+    owner = ownerSigner;
+    context = { bundlerProvider, provider, admin, owner, entryPointAddress };
+
+    accountOwner = Wallet.createRandom();
+    id1 = new Identity(id1Pk);
+    group = new Group([id1.commitment]);
+
+    simpleSemaphorePaymaster = (await setupSemaphoreContracts(entryPointAddress, "SimpleSemaphorePaymaster")) as unknown as SimpleSemaphorePaymaster;
+    await simpleSemaphorePaymaster["createGroup()"]();
+    await simpleSemaphorePaymaster.addMembers(groupId, group.members);
+    await simpleSemaphorePaymaster.depositForGroup(groupId, { value: ethers.parseEther("10") });
+    await simpleSemaphorePaymaster.addStake(1, { value: ethers.parseEther("1") });
+  });
+
+  it("should accept an EIP-191 signature from an ethers Signer", async () => {
+    const account = await setupAccount(false);
+    const receipt = await sendEth(account, createEthersUserOpSigner(accountOwner));
+
+    expect(receipt.success).to.be.true;
+  });
+
+  it("should accept an EIP-191 signature from a raw private key", async () => {
+    const account = await setupAccount(false);
+    const receipt = await sendEth(account, createPrivateKeyUserOpSigner(accountOwner.privateKey));
+
+    expect(receipt.success).to.be.true;
+  });
+
+  it("should accept an EIP-712 signature", async () => {
+    const account = await setupAccount(true);
+    const { chainId } = await context.provider.getNetwork();
+    const receipt = await sendEth(
+      account,
+      createTypedDataUserOpSigner(accountOwner, { name: "VerifyingSimpleAccount", version: "1", chainId })
+    );
+
+    expect(receipt.success).to.be.true;
+  });
+
+  it("should reject a signature from another key", async () => {
+    const account = await setupAccount(false);
+    const error = await sendEth(account, createEthersUserOpSigner(Wallet.createRandom())).catch((error) => error);
+
+    // The account's own signature check fails with AA24, not one of the paymaster codes
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.reason).to.include("AA24");
+  });
+});
@@ -51,7 +51,7 @@ contract CachedSemaphorePaymasterTest is Test {
             merkleTreeRoot: 123,
             nullifier: 456,
             message: uint256(uint160(_sender)),
-            scope: 0,
+            scope: paymaster.getScope(GROUP_ID),
             points: points
         });
 
@@ -151,6 +151,34 @@ contract CachedSemaphorePaymasterTest is Test {
         assertEq(context.length, 0, "Context should be empty");
     }
 
+    function test_RejectNewProofForAnotherPaymaster() public {
+        // A proof scoped to another deployment of the paymaster with the same group
+        uint256[8] memory points;
+        ISemaphore.SemaphoreProof memory proof = ISemaphore.SemaphoreProof({
+            merkleTreeDepth: 20,
+            merkleTreeRoot: 123,
+            nullifier: 456,
+            message: uint256(uint160(sender)),
+            scope: uint256(keccak256(abi.encode(block.chainid, address(0x5678), GROUP_ID))),
+            points: points
+        });
+
+        PackedUserOperation memory userOp;
+        userOp.sender = sender;
+        userOp.paymasterAndData = bytes.concat(
+            abi.encodePacked(address(paymaster)),
+            new bytes(32), // 32 byte offset
+            bytes.concat(hex"00", bytes32(GROUP_ID), abi.encode(proof))
+        );
+
+        vm.prank(address(entryPoint));
+        (bytes memory context, uint256 validationData) = paymaster.validatePaymasterUserOp(userOp, bytes32(0), 1 ether);
+        vm.stopPrank();
+
+        assertEq(validationData, 1, "Validation should fail for a scope of another paymaster");
+        assertEq(context.length, 0, "Context should be empty");
+    }
+
     function test_PostOp() public {
         uint256 initialDeposit = paymaster.groupDeposits(GROUP_ID);
         uint256 gasCost = 0.1 ether;
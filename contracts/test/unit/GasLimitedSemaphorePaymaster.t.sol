@@ -14,6 +14,7 @@ struct NullifierGasData {
     uint256 gasUsed;
     uint256 lastMerkleRoot;
     uint256 epoch;
+    address sender;
 }
 
 // Mock implementation of GasLimitedSemaphorePaymaster for testing
@@ -151,7 +152,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
             merkleTreeRoot: 123,
             nullifier: 456,
             message: uint256(uint160(sender)),
-            scope: uint256(keccak256(abi.encode(GROUP_ID, paymaster.currentEpoch()))), // Valid scope
+            scope: paymaster.getScope(GROUP_ID), // Valid scope
             points: points
         });
 
@@ -192,9 +193,59 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 gasUsed;
         uint256 lastMerkleRoot;
         uint256 epoch;
-        (gasUsed, lastMerkleRoot, epoch) = paymaster.gasData(proof.nullifier);
+        address cachedSender;
+        (gasUsed, lastMerkleRoot, epoch, cachedSender) = paymaster.gasData(proof.nullifier);
         assertEq(lastMerkleRoot, paymaster.getMerkleTreeRoot(GROUP_ID), "Merkle root should be cached");
         assertEq(epoch, paymaster.currentEpoch(), "Epoch should be cached");
+        assertEq(cachedSender, sender, "Sender should be cached");
+    }
+
+    function test_GetScope() public view {
+        assertEq(
+            paymaster.getScope(GROUP_ID),
+            uint256(keccak256(abi.encode(block.chainid, address(paymaster), GROUP_ID, paymaster.currentEpoch()))),
+            "Scope should cover the chain ID, paymaster address, group ID and epoch"
+        );
+    }
+
+    function test_RejectNewProofForAnotherDeployment() public {
+        uint256 epoch = paymaster.currentEpoch();
+        uint256[3] memory scopes = [
+            uint256(keccak256(abi.encode(block.chainid + 1, address(paymaster), GROUP_ID, epoch))), // another chain
+            uint256(keccak256(abi.encode(block.chainid, address(0x5678), GROUP_ID, epoch))), // another paymaster
+            uint256(keccak256(abi.encode(GROUP_ID, epoch))) // the group ID and epoch alone
+        ];
+
+        for (uint256 i = 0; i < scopes.length; i++) {
+            uint256[8] memory points;
+            ISemaphore.SemaphoreProof memory proof = ISemaphore.SemaphoreProof({
+                merkleTreeDepth: 20,
+                merkleTreeRoot: 123,
+                nullifier: 456,
+                message: uint256(uint160(sender)),
+                scope: scopes[i],
+                points: points
+            });
+
+            PackedUserOperation memory userOp;
+            userOp.sender = sender;
+            userOp.paymasterAndData = bytes.concat(
+                abi.encodePacked(address(paymaster)),
+                new bytes(32), // 32 byte offset
+                bytes.concat(hex"00", bytes32(GROUP_ID), abi.encode(proof))
+            );
+
+            vm.prank(address(entryPoint));
+            (bytes memory context, uint256 validationData) = paymaster.validatePaymasterUserOp(
+                userOp,
+                bytes32(0),
+                0.1 ether
+            );
+            vm.stopPrank();
+
+            assertEq(validationData, 1, "Validation should fail for a scope of another deployment");
+            assertEq(context.length, 0, "Context should be empty");
+        }
     }
 
     function test_ValidatePaymasterUserOpWithCachedProof() public {
@@ -306,6 +357,39 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         assertEq(context.length, 0, "Context should be empty");
     }
 
+    function test_RejectCachedProofFromAnotherSender() public {
+        // First create and cache a proof
+        uint256 nullifier = 456;
+        _createAndCacheProof(sender, nullifier);
+
+        // Another account replays the nullifier it saw in the first operation
+        bytes memory cachedPaymasterData = bytes.concat(
+            hex"01", // Using cache
+            bytes32(GROUP_ID),
+            abi.encode(nullifier)
+        );
+
+        PackedUserOperation memory userOp;
+        userOp.sender = address(0x5678);
+        userOp.paymasterAndData = bytes.concat(
+            abi.encodePacked(address(paymaster)),
+            new bytes(32), // 32 byte offset
+            cachedPaymasterData
+        );
+
+        // Validate with cached proof
+        vm.prank(address(entryPoint));
+        (bytes memory context, uint256 validationData) = paymaster.validatePaymasterUserOp(
+            userOp,
+            bytes32(0),
+            0.1 ether
+        );
+        vm.stopPrank();
+
+        assertEq(validationData, 1, "Validation should fail for another sender");
+        assertEq(context.length, 0, "Context should be empty");
+    }
+
     function test_RejectWhenGasLimitExceeded() public {
         // First create and cache a proof
         uint256 nullifier = 456;
@@ -353,7 +437,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 gasUsed;
         uint256 merkleRoot;
         uint256 epochNum;
-        (gasUsed, merkleRoot, epochNum) = paymaster.gasData(nullifier);
+        (gasUsed, merkleRoot, epochNum, ) = paymaster.gasData(nullifier);
         assertEq(gasUsed, firstGasAmount, "Gas usage should be tracked");
 
         // Use more gas
@@ -361,7 +445,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         _useGas(nullifier, secondGasAmount);
 
         // Check cumulative gas usage
-        (gasUsed, merkleRoot, epochNum) = paymaster.gasData(nullifier);
+        (gasUsed, merkleRoot, epochNum, ) = paymaster.gasData(nullifier);
         assertEq(gasUsed, firstGasAmount + secondGasAmount, "Gas usage should be cumulative");
 
         // Try to use more gas than remaining limit
@@ -409,7 +493,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 initialGasUsed;
         uint256 initialMerkleRoot;
         uint256 initialEpochNum;
-        (initialGasUsed, initialMerkleRoot, initialEpochNum) = paymaster.gasData(nullifier);
+        (initialGasUsed, initialMerkleRoot, initialEpochNum, ) = paymaster.gasData(nullifier);
         assertEq(initialGasUsed, gasAmount, "Gas usage should be tracked");
         assertEq(initialEpochNum, paymaster.currentEpoch(), "Epoch should be current");
 
@@ -430,7 +514,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 newGasUsed;
         uint256 newMerkleRoot;
         uint256 newEpochNum;
-        (newGasUsed, newMerkleRoot, newEpochNum) = paymaster.gasData(nullifier);
+        (newGasUsed, newMerkleRoot, newEpochNum, ) = paymaster.gasData(nullifier);
 
         assertEq(newEpochNum, newEpoch, "Epoch should be updated");
         assertEq(newGasUsed, 0, "Gas usage should be reset for new epoch");
@@ -469,7 +553,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 gasUsed;
         uint256 unusedMerkleRoot;
         uint256 epochNum;
-        (gasUsed, unusedMerkleRoot, epochNum) = paymaster.gasData(nullifier);
+        (gasUsed, unusedMerkleRoot, epochNum, ) = paymaster.gasData(nullifier);
 
         assertEq(epochNum, newEpoch, "Epoch should be updated");
         assertEq(gasUsed, 0, "Gas usage should be reset for new epoch");
@@ -509,7 +593,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
         uint256 gasUsed;
         uint256 merkleRoot;
         uint256 epochNum;
-        (gasUsed, merkleRoot, epochNum) = paymaster.gasData(nullifier);
+        (gasUsed, merkleRoot, epochNum, ) = paymaster.gasData(nullifier);
         assertEq(gasUsed, expectedGasUsed, "Gas usage should be tracked correctly");
         assertEq(epochNum, paymaster.currentEpoch(), "Epoch should be current");
     }
@@ -549,7 +633,7 @@ contract GasLimitedSemaphorePaymasterTest is Test {
             merkleTreeRoot: 123,
             nullifier: _nullifier,
             message: uint256(uint160(_sender)),
-            scope: uint256(keccak256(abi.encode(GROUP_ID, paymaster.currentEpoch()))), // Valid scope
+            scope: paymaster.getScope(GROUP_ID), // Valid scope
             points: points
         });
 
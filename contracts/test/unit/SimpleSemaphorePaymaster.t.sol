@@ -56,7 +56,7 @@ contract SimpleSemaphorePaymasterTest is Test {
             merkleTreeRoot: 123,
             nullifier: 456,
             message: uint256(uint160(sender)), // Valid message
-            scope: 0,
+            scope: paymaster.getScope(GROUP_ID), // Valid scope
             points: points
         });
 
@@ -100,7 +100,7 @@ contract SimpleSemaphorePaymasterTest is Test {
             merkleTreeRoot: 123,
             nullifier: 456,
             message: uint256(uint160(sender)),
-            scope: 0,
+            scope: paymaster.getScope(1),
             points: points
         });
 
@@ -127,6 +127,53 @@ contract SimpleSemaphorePaymasterTest is Test {
         assertTrue(validationData > 0, "Validation should fail for insufficient balance");
     }
 
+    function test_GetScope() public view {
+        assertEq(
+            paymaster.getScope(GROUP_ID),
+            uint256(keccak256(abi.encode(block.chainid, address(paymaster), GROUP_ID))),
+            "Scope should cover the chain ID, paymaster address and group ID"
+        );
+    }
+
+    function test_RejectProofForAnotherDeployment() public {
+        uint256[3] memory scopes = [
+            uint256(keccak256(abi.encode(block.chainid + 1, address(paymaster), GROUP_ID))), // another chain
+            uint256(keccak256(abi.encode(block.chainid, address(0x5678), GROUP_ID))), // another paymaster
+            GROUP_ID // the group ID alone
+        ];
+
+        for (uint256 i = 0; i < scopes.length; i++) {
+            uint256[8] memory points;
+            ISemaphore.SemaphoreProof memory proof = ISemaphore.SemaphoreProof({
+                merkleTreeDepth: 20,
+                merkleTreeRoot: 123,
+                nullifier: 456,
+                message: uint256(uint160(sender)),
+                scope: scopes[i],
+                points: points
+            });
+
+            PackedUserOperation memory userOp;
+            userOp.sender = sender;
+            userOp.paymasterAndData = bytes.concat(
+                abi.encodePacked(address(paymaster)),
+                new bytes(32), // 32 byte offset
+                abi.encode(SimpleSemaphorePaymaster.PaymasterData({groupId: GROUP_ID, proof: proof}))
+            );
+
+            vm.prank(address(entryPoint));
+            (bytes memory context, uint256 validationData) = paymaster.validatePaymasterUserOp(
+                userOp,
+                bytes32(0),
+                1 ether
+            );
+            vm.stopPrank();
+
+            assertEq(validationData, 1, "Validation should fail for a scope of another deployment");
+            assertEq(context.length, 0, "Context should be empty");
+        }
+    }
+
     function test_PostOp() public {
         uint256 initialDeposit = paymaster.groupDeposits(GROUP_ID);
         uint256 gasCost = 0.1 ether;
@@ -0,0 +1,237 @@
+import { ethers, network } from "hardhat";
+import { BrowserProvider, Contract, Eip1193Provider, isError, LogDescription, Signer, toBeHex } from "ethers";
+import {
+    DUMMY_SIGNATURE,
+    encodeUserOp,
+    packUserOp,
+    RpcLog,
+    RpcUserOperationReceipt,
+    UserOperation,
+} from "@semaphore-paymaster/sdk";
+
+/**
+ * @notice In-process stand-in for the docker geth node and eth-infinitism bundler.
+ * The EntryPoint is deployed on the Hardhat network and user operations are
+ * bundled one at a time by calling handleOps directly, so the integration
+ * suites run with `npx hardhat test` and no containers. Only the bundler
+ * methods the tests use are implemented, everything else goes to the Hardhat node.
+ */
+
+export interface LocalProviders {
+    provider: BrowserProvider;
+    bundlerProvider: BrowserProvider;
+    entryPointAddress: string;
+}
+
+// Same constants as the eth-infinitism bundler's calcPreVerificationGas
+const PRE_VERIFICATION_GAS = {
+    fixed: 21000n,
+    perUserOp: 18300n,
+    perUserOpWord: 4n,
+    zeroByte: 4n,
+    nonZeroByte: 16n,
+};
+
+// Gas the EntryPoint spends around the account's validateUserOp
+const VERIFICATION_OVERHEAD = 50000n;
+
+let localProviders: Promise<LocalProviders> | undefined;
+
+function calcPreVerificationGas(userOp: Partial<UserOperation>): bigint {
+    const filled = {
+        verificationGasLimit: 0,
+        callGasLimit: 0,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        paymasterVerificationGasLimit: 0,
+        paymasterPostOpGasLimit: 0,
+        ...userOp,
+        preVerificationGas: PRE_VERIFICATION_GAS.fixed,
+        signature: userOp.signature ?? DUMMY_SIGNATURE,
+    } as UserOperation;
+
+    const packed = ethers.getBytes(encodeUserOp(packUserOp(filled), false));
+    const callDataCost = packed.reduce(
+        (cost, byte) => cost + (byte === 0 ? PRE_VERIFICATION_GAS.zeroByte : PRE_VERIFICATION_GAS.nonZeroByte),
+        0n
+    );
+    const words = BigInt(Math.ceil(packed.length / 32));
+
+    return callDataCost + PRE_VERIFICATION_GAS.fixed + PRE_VERIFICATION_GAS.perUserOp + PRE_VERIFICATION_GAS.perUserOpWord * words;
+}
+
+function describeRevert(error: unknown): string {
+    if (isError(error, "CALL_EXCEPTION")) {
+        return error.revert ? `${error.revert.name}(${error.revert.args.join(", ")})` : error.shortMessage;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * EIP-1193 provider answering the bundler RPC methods for the given EntryPoint.
+ * Operations are checked with a static handleOps call first, so a rejected
+ * operation fails eth_sendUserOperation with the EntryPoint's FailedOp reason
+ * like a real bundler, instead of being mined.
+ */
+export function createLocalBundler(entryPoint: Contract, beneficiary: Signer): Eip1193Provider {
+    const receipts = new Map<string, RpcUserOperationReceipt>();
+
+    async function estimateUserOperationGas(userOp: Partial<UserOperation>) {
+        const entryPointAddress = await entryPoint.getAddress();
+        const sender = userOp.sender as string;
+        const deployed = (await ethers.provider.getCode(sender)) !== "0x";
+        let verificationGasLimit = VERIFICATION_OVERHEAD;
+
+        if (!deployed && !userOp.factory) {
+            throw new Error("Gas estimation failed: FailedOp(0, AA20 account not deployed)");
+        }
+
+        if (userOp.factory) {
+            verificationGasLimit += await ethers.provider.estimateGas({
+                from: entryPointAddress,
+                to: userOp.factory,
+                data: userOp.factoryData,
+            });
+        }
+
+        // An account that doesn't exist yet is deployed in a snapshot, like the
+        // EntryPoint deploys it before validateUserOp and the call
+        const snapshot = deployed ? undefined : await network.provider.request({ method: "evm_snapshot" });
+        let callGasLimit: bigint;
+
+        try {
+            if (!deployed) {
+                const [deployer] = await ethers.getSigners();
+                await (await deployer.sendTransaction({ to: userOp.factory, data: userOp.factoryData })).wait();
+            }
+
+            const account = await ethers.getContractAt("SimpleAccount", sender);
+            const packed = packUserOp({ ...userOp, signature: userOp.signature ?? DUMMY_SIGNATURE } as UserOperation);
+            verificationGasLimit += await account.validateUserOp.estimateGas(packed, ethers.ZeroHash, 0, {
+                from: entryPointAddress,
+            });
+
+            callGasLimit = await ethers.provider.estimateGas({ from: entryPointAddress, to: sender, data: userOp.callData });
+        } finally {
+            if (snapshot !== undefined) {
+                await network.provider.request({ method: "evm_revert", params: [snapshot] });
+            }
+        }
+
+        return {
+            preVerificationGas: toBeHex(calcPreVerificationGas(userOp)),
+            verificationGasLimit: toBeHex(verificationGasLimit),
+            paymasterVerificationGasLimit: userOp.paymaster
+                ? toBeHex(await estimatePaymasterValidation(userOp))
+                : undefined,
+            callGasLimit: toBeHex(callGasLimit),
+        };
+    }
+
+    // Runs validatePaymasterUserOp with the operation's paymaster data like the
+    // EntryPoint does, so the placeholder or real proof is simulated
+    async function estimatePaymasterValidation(userOp: Partial<UserOperation>): Promise<bigint> {
+        const paymaster = await ethers.getContractAt("IPaymaster", userOp.paymaster as string);
+        const packed = packUserOp({ ...userOp, signature: userOp.signature ?? DUMMY_SIGNATURE } as UserOperation);
+
+        try {
+            return await paymaster.validatePaymasterUserOp.estimateGas(packed, ethers.ZeroHash, 0, {
+                from: await entryPoint.getAddress(),
+            });
+        } catch (error) {
+            const data = isError(error, "CALL_EXCEPTION") ? error.data : null;
+            throw new Error(`Gas estimation failed: FailedOpWithRevert(0, AA33 reverted, ${data ?? "0x"})`);
+        }
+    }
+
+    async function sendUserOperation(userOp: UserOperation) {
+        const beneficiaryAddress = await beneficiary.getAddress();
+        const bundler = entryPoint.connect(beneficiary) as Contract;
+        const packed = packUserOp(userOp);
+
+        try {
+            await bundler.handleOps.staticCall([packed], beneficiaryAddress);
+        } catch (error) {
+            throw new Error(`User operation rejected: ${describeRevert(error)}`);
+        }
+
+        const userOpHash: string = await entryPoint.getUserOpHash(packed);
+        const tx = await bundler.handleOps([packed], beneficiaryAddress);
+        await tx.wait();
+
+        // The receipt as the node returns it over JSON-RPC, like a real bundler passes it on
+        const txReceipt = (await network.provider.request({
+            method: "eth_getTransactionReceipt",
+            params: [tx.hash],
+        })) as RpcUserOperationReceipt["receipt"];
+
+        const logs: (LogDescription | null)[] = txReceipt.logs.map((log: RpcLog) => entryPoint.interface.parseLog(log));
+        const eventIndex = logs.findIndex((log) => log?.name === "UserOperationEvent" && log.args.userOpHash === userOpHash);
+        const revert = logs.find((log) => log?.name === "UserOperationRevertReason" && log.args.userOpHash === userOpHash);
+
+        if (eventIndex === -1) {
+            throw new Error(`No UserOperationEvent for ${userOpHash} in ${tx.hash}`);
+        }
+
+        // The operation's own logs are the ones between BeforeExecution and its UserOperationEvent
+        const beforeExecutionIndex = logs.findIndex((log) => log?.name === "BeforeExecution");
+        const event = logs[eventIndex]!;
+
+        receipts.set(userOpHash, {
+            userOpHash,
+            entryPoint: await entryPoint.getAddress(),
+            sender: event.args.sender,
+            nonce: toBeHex(event.args.nonce),
+            paymaster: event.args.paymaster,
+            actualGasCost: toBeHex(event.args.actualGasCost),
+            actualGasUsed: toBeHex(event.args.actualGasUsed),
+            success: event.args.success,
+            reason: revert ? revert.args.revertReason : "0x",
+            logs: txReceipt.logs.slice(beforeExecutionIndex + 1, eventIndex),
+            receipt: txReceipt,
+        });
+
+        return userOpHash;
+    }
+
+    const methods: Record<string, (params: unknown[]) => Promise<unknown>> = {
+        eth_supportedEntryPoints: async () => [await entryPoint.getAddress()],
+        eth_estimateUserOperationGas: ([userOp]) => estimateUserOperationGas(userOp as Partial<UserOperation>),
+        eth_sendUserOperation: ([userOp]) => sendUserOperation(userOp as UserOperation),
+        eth_getUserOperationReceipt: async ([userOpHash]) => receipts.get(userOpHash as string) ?? null,
+    };
+
+    return {
+        request: async ({ method, params }) => {
+            if (methods[method]) {
+                return methods[method](Array.isArray(params) ? params : []);
+            }
+
+            return network.provider.request({ method, params });
+        },
+    };
+}
+
+/**
+ * Deploys the EntryPoint and the local bundler once per test run. The last
+ * Hardhat account submits the bundles and receives their fees.
+ */
+export function setupLocalProviders(): Promise<LocalProviders> {
+    localProviders ??= (async () => {
+        const entryPointFactory = await ethers.getContractFactory("EntryPoint");
+        const entryPoint = await entryPointFactory.deploy();
+        await entryPoint.waitForDeployment();
+
+        const signers = await ethers.getSigners();
+        const bundler = createLocalBundler(entryPoint as unknown as Contract, signers[signers.length - 1]);
+
+        return {
+            provider: new BrowserProvider(network.provider),
+            bundlerProvider: new BrowserProvider(bundler),
+            entryPointAddress: await entryPoint.getAddress(),
+        };
+    })();
+
+    return localProviders;
+}
@@ -1,19 +1,122 @@
-import { ethers } from "hardhat";
-import { JsonRpcProvider, Signer } from "ethers";
+import { ethers, network } from "hardhat";
+import { BigNumberish, JsonRpcApiProvider, Signer } from "ethers";
+import { expect } from "chai";
+import { Group, Identity } from "@semaphore-protocol/core";
 import { SemaphorePolicy, SemaphorePolicy__factory, SimpleAccount, SemaphorePolicyFactory, SemaphorePolicyFactory__factory } from "../../typechain";
-import { Identity, Group, generateProof } from "@semaphore-protocol/core";
-import { generateUnsignedUserOp, getUserOpHash } from "./userOpUtils";
+import {
+    ArtifactStore,
+    createEthTransferCall,
+    createLocalProofGenerator,
+    DUMMY_SIGNATURE,
+    encodeExecute,
+    FactoryParams,
+    generateScope,
+    generateCachedPaymasterData as sdkGenerateCachedPaymasterData,
+    generateGasLimitedPaymasterData as sdkGenerateGasLimitedPaymasterData,
+    generatePaymasterData as sdkGeneratePaymasterData,
+    getCounterfactualAccount,
+    openArtifactStore,
+    ProofGenerator,
+    signUserOperation,
+    UserOperation,
+    UserOperationReceipt,
+    UserOperationSigner
+} from "@semaphore-paymaster/sdk";
+import { generateUnsignedUserOp } from "./userOpUtils";
+import { setupLocalProviders } from "./localBundler";
 import { SemaphoreChecker, SemaphoreChecker__factory, SemaphoreCheckerFactory, SemaphoreCheckerFactory__factory, SemaphoreMock, SemaphoreMock__factory } from "@excubiae/contracts/typechain-types";
 
+export { generateScope, generateExcubiaePaymasterData } from "@semaphore-paymaster/sdk";
+
+let proofArtifacts: Promise<ArtifactStore | undefined> | undefined;
+
+/**
+ * Proof artifacts from SEMAPHORE_ARTIFACTS_DIR, pinned by the manifest.json in
+ * that directory, so the suites run without network access. Without it
+ * snarkjs fetches them for each depth.
+ */
+export function getProofArtifacts(): Promise<ArtifactStore | undefined> {
+    const directory = process.env.SEMAPHORE_ARTIFACTS_DIR;
+    proofArtifacts ??= directory ? openArtifactStore(directory) : Promise.resolve(undefined);
+    return proofArtifacts;
+}
+
+async function getProofGenerator(): Promise<ProofGenerator> {
+    return createLocalProofGenerator(await getProofArtifacts());
+}
+
+/**
+ * The Simple and Cached scopes are bound to the chain the suites run against.
+ */
+async function getChainId(): Promise<bigint> {
+    return (await ethers.provider.getNetwork()).chainId;
+}
+
+export async function generatePaymasterData(id: Identity, group: Group, message: bigint, groupId: number, paymasterAddress: string) {
+    return sdkGeneratePaymasterData(id, group, message, groupId, await getChainId(), paymasterAddress, await getProofGenerator());
+}
+
+export async function generateCachedPaymasterData(
+    id: Identity,
+    group: Group,
+    message: bigint,
+    groupId: number,
+    paymasterAddress: string,
+    useCache: boolean = false,
+) {
+    return sdkGenerateCachedPaymasterData(id, group, message, groupId, await getChainId(), paymasterAddress, useCache, await getProofGenerator());
+}
+
+export async function generateGasLimitedPaymasterData(
+    id: Identity,
+    group: Group,
+    message: bigint,
+    groupId: number,
+    epoch: BigNumberish,
+    paymasterAddress: string,
+    useCache: boolean = false,
+) {
+    return sdkGenerateGasLimitedPaymasterData(id, group, message, groupId, epoch, await getChainId(), paymasterAddress, useCache, await getProofGenerator());
+}
+
+/**
+ * Verifier the Semaphore paymasters are deployed with, picked with VERIFIER_MODE.
+ * "mock" deploys AlwaysValidVerifier, "real" deploys SemaphoreVerifier so the
+ * proofs from generateProof are checked on-chain within the paymaster's gas limits.
+ */
+export type VerifierMode = "mock" | "real";
+
+export function getVerifierMode(): VerifierMode {
+    const mode = process.env.VERIFIER_MODE ?? "mock";
+
+    if (mode !== "mock" && mode !== "real") {
+        throw new Error(`VERIFIER_MODE must be "mock" or "real", got "${mode}"`);
+    }
+
+    return mode;
+}
+
 export interface TestContext {
-    bundlerProvider: JsonRpcProvider;
-    provider: JsonRpcProvider;
+    bundlerProvider: JsonRpcApiProvider;
+    provider: JsonRpcApiProvider;
     admin: Signer;
     owner: Signer;
     entryPointAddress: string;
 }
 
-export async function setupProviders() {
+/**
+ * Providers for the docker node and bundler, or for the in-process harness
+ * when the tests run on the Hardhat network.
+ */
+export async function setupProviders(): Promise<{
+    provider: JsonRpcApiProvider;
+    bundlerProvider: JsonRpcApiProvider;
+    entryPointAddress: string;
+}> {
+    if (network.name === "hardhat") {
+        return setupLocalProviders();
+    }
+
     const provider = new ethers.JsonRpcProvider(process.env.NODE_URL);
     const bundlerProvider = new ethers.JsonRpcProvider(process.env.BUNDLER_URL);
 
@@ -43,6 +146,29 @@ export async function setupSimpleAccount(entryPointAddress: string) {
     );
 }
 
+/**
+ * A SimpleAccount that isn't deployed yet: its address from computeAddress and
+ * the factory fields that let its first sponsored operation deploy it.
+ */
+export async function setupCounterfactualSimpleAccount(entryPointAddress: string) {
+    const factory = await ethers.getContractFactory("SimpleAccountFactory");
+    const simpleAccountFactory = await factory.deploy(entryPointAddress);
+    await simpleAccountFactory.waitForDeployment();
+
+    return getCounterfactualAccount(ethers.provider, await simpleAccountFactory.getAddress(), ethers.randomBytes(32));
+}
+
+/**
+ * Deploys a VerifyingSimpleAccount owned by owner, checking EIP-191 or, with
+ * typedData, EIP-712 signatures over the userOpHash.
+ */
+export async function setupVerifyingSimpleAccount(entryPointAddress: string, owner: Signer, typedData: boolean) {
+    const factory = await ethers.getContractFactory("VerifyingSimpleAccount");
+    const account = await factory.deploy(entryPointAddress, await owner.getAddress(), typedData);
+    await account.waitForDeployment();
+    return account;
+}
+
 export async function setupSemaphoreContracts(entryPointAddress: string, contractName: string, epochDuration: number | undefined = undefined, firstEpochTimestamp: number | undefined = undefined) {
     if (contractName === "GasLimitedSemaphorePaymaster" && !epochDuration) {
         throw new Error("Epoch duration is required for GasLimitedSemaphorePaymaster");
@@ -56,7 +182,9 @@ export async function setupSemaphoreContracts(entryPointAddress: string, contrac
     const poseidonT3 = await poseidonT3Factory.deploy();
     await poseidonT3.waitForDeployment();
 
-    const verifierFactory = await ethers.getContractFactory("AlwaysValidVerifier");
+    const verifierFactory = await ethers.getContractFactory(
+        getVerifierMode() === "real" ? "SemaphoreVerifier" : "AlwaysValidVerifier"
+    );
     const verifierContract = await verifierFactory.deploy();
     await verifierContract.waitForDeployment();
 
@@ -191,113 +319,8 @@ export async function generateMessage(account: SimpleAccount) {
     return BigInt(sender);
 }
 
-export function generateScope(entryPointAddress: string, groupId: number): bigint {
-    return (ethers.toBigInt(entryPointAddress) << 96n) | ethers.toBigInt(groupId)
-}
-
-export async function generateExcubiaePaymasterData(
-    groupId: number,
-    evidence: string
-) {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-
-    return abiCoder.encode(
-        ["tuple(uint256 groupId, bytes proof)"],
-        [{ groupId: groupId, proof: evidence }]
-    );
-}
-export async function generatePaymasterData(
-    id: Identity,
-    group: Group,
-    message: bigint,
-    groupId: number
-) {
-    const proof = await generateProof(id, group, message, groupId);
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-
-    return abiCoder.encode(
-        ["tuple(uint256 groupId, tuple(uint256 merkleTreeDepth, uint256 merkleTreeRoot, uint256 nullifier, uint256 message, uint256 scope, uint256[8] points) proof)"],
-        [{ groupId: groupId, proof }]
-    );
-}
-
-export async function generateCachedPaymasterData(
-    id: Identity,
-    group: Group,
-    message: bigint,
-    groupId: number,
-    useCache: boolean = false
-) {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-
-    if (useCache) {
-        // Return cached format with flag
-        return ethers.concat([
-            "0x01", // Using cache flag
-            abiCoder.encode(["uint256"], [groupId])
-        ]);
-    }
-
-    // Generate new proof format
-    const proof = await generateProof(id, group, message, groupId);
-    return ethers.concat([
-        "0x00", // Not using cache flag
-        abiCoder.encode(["uint256"], [groupId]),
-        abiCoder.encode(
-            ["tuple(uint256 merkleTreeDepth, uint256 merkleTreeRoot, uint256 nullifier, uint256 message, uint256 scope, uint256[8] points)"],
-            [proof]
-        )
-    ]);
-}
-
-export async function generateGasLimitedPaymasterData(
-    id: Identity,
-    group: Group,
-    message: bigint,
-    groupId: number,
-    epoch: number,
-    useCache: boolean = false
-): Promise<{ paymasterData: string, nullifier: string }> {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    let scope = ethers.keccak256(abiCoder.encode(["uint256", "uint256"], [groupId, epoch]));
-
-    if (useCache) {
-        // For gas-limited paymaster, we need to include the nullifier in the cached format
-        // First generate a proof to get the nullifier
-        const proof = await generateProof(id, group, message, scope);
-
-        // Return cached format with flag and nullifier
-        return {
-            paymasterData: ethers.concat([
-                "0x01", // Using cache flag
-                abiCoder.encode(["uint256"], [groupId]),
-                abiCoder.encode(["uint256"], [proof.nullifier])
-            ]),
-            nullifier: proof.nullifier
-        };
-    }
-
-    // Generate new proof format
-    const proof = await generateProof(id, group, message, scope);
-    return {
-        paymasterData: ethers.concat([
-            "0x00", // Not using cache flag
-            abiCoder.encode(["uint256"], [groupId]),
-            abiCoder.encode(
-                ["tuple(uint256 merkleTreeDepth, uint256 merkleTreeRoot, uint256 nullifier, uint256 message, uint256 scope, uint256[8] points)"],
-                [proof]
-            )
-        ]),
-        nullifier: proof.nullifier
-    };
-}
-
 export function prepareTransferCallData(to: string, amount: bigint): string {
-    const executeFunctionSelector = "0x" + ethers.id("execute(address,uint256,bytes)").slice(2, 10);
-    return executeFunctionSelector + ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "uint256", "bytes"],
-        [to, amount, "0x"]
-    ).slice(2);
+    return encodeExecute(createEthTransferCall(to, amount));
 }
 
 export async function prepareUserOp(
@@ -306,6 +329,9 @@ export async function prepareUserOp(
     accountAddress: string,
     paymasterAddress: string,
     paymasterData: string,
+    signer?: UserOperationSigner,
+    factoryParams?: FactoryParams,
+    nonce?: bigint,
 ) {
     const unsignedUserOperation = await generateUnsignedUserOp(
         context.entryPointAddress,
@@ -315,19 +341,37 @@ export async function prepareUserOp(
         callData,
         paymasterAddress,
         100000,
-        paymasterData
+        paymasterData,
+        undefined,
+        factoryParams,
+        nonce
     );
-    return await signUserOp(context, unsignedUserOperation);
+    return await signUserOp(context, unsignedUserOperation, signer);
 }
 
-async function signUserOp(context: TestContext, unsignedUserOperation: any) {
-    const chainId = await context.provider.getNetwork().then((network) => network.chainId);
-    const userOpHash = getUserOpHash(unsignedUserOperation, context.entryPointAddress, Number(chainId));
+/**
+ * Checks what _postOp charged against the operation's UserOperationEvent. The
+ * EntryPoint calls _postOp with the cost so far, so the charge is below
+ * actualGasCost by at most the postOp gas limit at the operation's gas price.
+ */
+export function expectPostOpCharge(charged: bigint, userOp: UserOperation, receipt: UserOperationReceipt) {
+    const { actualGasCost, actualGasUsed } = receipt.event;
+    const actualGasPrice = actualGasCost / actualGasUsed;
+
+    expect(charged).to.be.greaterThan(0n);
+    expect(charged).to.be.lessThan(actualGasCost);
+    expect(actualGasCost - charged).to.be.at.most(BigInt(userOp.paymasterPostOpGasLimit ?? 0) * actualGasPrice);
+}
 
-    // For testing purposes, we're using a dummy signature
-    // In a real application, this would be signed by the user's private key
-    // The SimpleAccount contract in test mode accepts any signature
-    unsignedUserOperation.signature = "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+/**
+ * Signs the userOpHash with signer. Without one the dummy signature is kept,
+ * which only the mock SimpleAccount accepts as it doesn't check signatures.
+ */
+async function signUserOp(context: TestContext, unsignedUserOperation: UserOperation, signer?: UserOperationSigner) {
+    if (!signer) {
+        return { ...unsignedUserOperation, signature: DUMMY_SIGNATURE };
+    }
 
-    return unsignedUserOperation;
-} 
\ No newline at end of file
+    const chainId = await context.provider.getNetwork().then((network) => network.chainId);
+    return signUserOperation(unsignedUserOperation, context.entryPointAddress, Number(chainId), signer);
+}
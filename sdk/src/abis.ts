@@ -0,0 +1,115 @@
+import { SEMAPHORE_PROOF_TUPLE } from "./paymasterData";
+
+/**
+ * Human-readable ABI fragments for the contracts the SDK talks to. Only the
+ * members the SDK uses are listed so the package doesn't depend on the
+ * contracts build output.
+ */
+
+const PACKED_USER_OPERATION_TUPLE =
+  "tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)";
+
+export const ENTRY_POINT_ABI = [
+  "function getNonce(address sender, uint192 key) view returns (uint256 nonce)",
+  "function balanceOf(address account) view returns (uint256)",
+  "event Deposited(address indexed account, uint256 totalDeposit)",
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  `function handleOps(${PACKED_USER_OPERATION_TUPLE}[] ops, address beneficiary)`,
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)",
+];
+
+export const GROUP_DEPOSITS_ABI = [
+  "function entryPoint() view returns (address)",
+  "function groupDeposits(uint256 groupId) view returns (uint256)",
+  "function depositForGroup(uint256 groupId) payable",
+  "function getDeposit() view returns (uint256)",
+];
+
+/**
+ * The Semaphore contract SimpleSemaphorePaymaster and its subclasses inherit.
+ */
+export const SEMAPHORE_ABI = [
+  "event GroupCreated(uint256 indexed groupId)",
+  "event GroupAdminUpdated(uint256 indexed groupId, address indexed oldAdmin, address indexed newAdmin)",
+  "event GroupAdminPending(uint256 indexed groupId, address indexed oldAdmin, address indexed newAdmin)",
+  "event MemberAdded(uint256 indexed groupId, uint256 index, uint256 identityCommitment, uint256 merkleTreeRoot)",
+  "event MembersAdded(uint256 indexed groupId, uint256 startIndex, uint256[] identityCommitments, uint256 merkleTreeRoot)",
+  "event MemberUpdated(uint256 indexed groupId, uint256 index, uint256 identityCommitment, uint256 newIdentityCommitment, uint256 merkleTreeRoot)",
+  "event MemberRemoved(uint256 indexed groupId, uint256 index, uint256 identityCommitment, uint256 merkleTreeRoot)",
+  "function createGroup() returns (uint256)",
+  "function createGroup(address admin) returns (uint256)",
+  "function updateGroupAdmin(uint256 groupId, address newAdmin)",
+  "function acceptGroupAdmin(uint256 groupId)",
+  "function addMember(uint256 groupId, uint256 identityCommitment)",
+  "function addMembers(uint256 groupId, uint256[] identityCommitments)",
+  "function updateMember(uint256 groupId, uint256 oldIdentityCommitment, uint256 newIdentityCommitment, uint256[] merkleProofSiblings)",
+  "function removeMember(uint256 groupId, uint256 identityCommitment, uint256[] merkleProofSiblings)",
+  "function getGroupAdmin(uint256 groupId) view returns (address)",
+  "function hasMember(uint256 groupId, uint256 identityCommitment) view returns (bool)",
+  "function getMerkleTreeRoot(uint256 groupId) view returns (uint256)",
+  "function getMerkleTreeSize(uint256 groupId) view returns (uint256)",
+  `function verifyProof(uint256 groupId, ${SEMAPHORE_PROOF_TUPLE} proof) view returns (bool)`,
+];
+
+export const SIMPLE_SEMAPHORE_PAYMASTER_ABI = [...GROUP_DEPOSITS_ABI, ...SEMAPHORE_ABI];
+
+export const CACHED_SEMAPHORE_PAYMASTER_ABI = [
+  ...SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  "function lastMerkleRoot(address user, uint256 groupId) view returns (uint256)",
+  "function isValidCachedProof(address user, uint256 groupId) view returns (bool)",
+];
+
+export const GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI = [
+  ...SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  "function epochDuration() view returns (uint256)",
+  "function firstEpochTimestamp() view returns (uint256)",
+  "function currentEpoch() view returns (uint256)",
+  "function maxGasPerUserPerEpoch(uint256 groupId) view returns (uint256)",
+  "function gasData(uint256 nullifier) view returns (uint256 gasUsed, uint256 lastMerkleRoot, uint256 epoch, address sender)",
+  "function updateEpoch()",
+];
+
+export const EXCUBIAE_PAYMASTER_ABI = [...GROUP_DEPOSITS_ABI, "function POLICY() view returns (address)"];
+
+/**
+ * The mock SimpleAccount's execution functions, the callData of an operation calls one of them.
+ */
+export const SIMPLE_ACCOUNT_ABI = [
+  "function execute(address dest, uint256 value, bytes func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+];
+
+export const ERC20_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+];
+
+/**
+ * The mock SimpleAccountFactory, which deploys accounts as clones at an address derived from a salt.
+ */
+export const SIMPLE_ACCOUNT_FACTORY_ABI = [
+  "function createSimpleAccount(bytes32 salt) returns (address)",
+  "function computeAddress(bytes32 salt) view returns (address)",
+];
+
+/**
+ * Custom errors a paymaster's validation can revert with: Semaphore's
+ * verifyProof and, for the Excubiae paymaster, the policy and its checker.
+ */
+export const PAYMASTER_REVERT_ERRORS_ABI = [
+  "error Semaphore__GroupDoesNotExist()",
+  "error Semaphore__GroupHasNoMembers()",
+  "error Semaphore__MerkleTreeDepthIsNotSupported()",
+  "error Semaphore__MerkleTreeRootIsExpired()",
+  "error Semaphore__MerkleTreeRootIsNotPartOfTheGroup()",
+  "error Semaphore__InvalidProof()",
+  "error InvalidGroup()",
+  "error InvalidProof()",
+  "error InvalidProver()",
+  "error UnsuccessfulCheck()",
+  "error AlreadyEnforced()",
+  "error TargetOnly()",
+];
@@ -0,0 +1,47 @@
+import { BytesLike, Contract, Interface, Provider } from "ethers";
+import { SIMPLE_ACCOUNT_FACTORY_ABI } from "./abis";
+import { FactoryParams } from "./types";
+
+/**
+ * The sender of an account's operations and the factory fields that deploy
+ * it, empty once the account has code.
+ */
+export type CounterfactualAccount = {
+  sender: string;
+  deployed: boolean;
+  factoryParams: FactoryParams;
+};
+
+const simpleAccountFactoryInterface = new Interface(SIMPLE_ACCOUNT_FACTORY_ABI);
+
+/**
+ * factoryData for SimpleAccountFactory: the createSimpleAccount call the
+ * EntryPoint makes to deploy the account.
+ */
+export function encodeSimpleAccountFactoryData(salt: BytesLike): string {
+  return simpleAccountFactoryInterface.encodeFunctionData("createSimpleAccount", [salt]);
+}
+
+/**
+ * The address SimpleAccountFactory deploys the account to for the salt. Until
+ * the account exists its first operation carries factory and factoryData, so
+ * deployment and first call are sponsored together; the proof message must
+ * then be the counterfactual sender.
+ */
+export async function getCounterfactualAccount(
+  provider: Provider,
+  factoryAddress: string,
+  salt: BytesLike,
+): Promise<CounterfactualAccount> {
+  const factory = new Contract(factoryAddress, SIMPLE_ACCOUNT_FACTORY_ABI, provider);
+  const sender: string = await factory.computeAddress(salt);
+  const deployed = (await provider.getCode(sender)) !== "0x";
+
+  return {
+    sender,
+    deployed,
+    factoryParams: deployed
+      ? { factory: "0x", factoryData: "0x" }
+      : { factory: factoryAddress, factoryData: encodeSimpleAccountFactoryData(salt) },
+  };
+}
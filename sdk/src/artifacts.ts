@@ -0,0 +1,174 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { BigNumberish, sha256 } from "ethers";
+import { Group, Identity, generateProof, SemaphoreProof } from "@semaphore-protocol/core";
+
+/**
+ * SHA-256 of the wasm and zkey of each tree depth, pinned by whoever ships the
+ * artifact directory. Depths without an entry can't be loaded.
+ */
+export type ArtifactManifest = Record<number, { wasm: string; zkey: string }>;
+
+/**
+ * Circuit wasm and proving key of one depth, as bytes snarkjs reads in memory.
+ */
+export type ProofArtifacts = {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+};
+
+/**
+ * generateProof hands its artifacts to snarkjs, which reads bytes as well as
+ * paths, though the SnarkArtifacts it is typed with only lists paths.
+ */
+type GenerateProofWithArtifacts = (
+  identity: Identity,
+  group: Group,
+  message: BigNumberish,
+  scope: BigNumberish,
+  merkleTreeDepth: number,
+  snarkArtifacts: ProofArtifacts | { wasm: string; zkey: string },
+) => Promise<SemaphoreProof>;
+
+const generateProofWithArtifacts = generateProof as GenerateProofWithArtifacts;
+
+/**
+ * Loads proof artifacts from a local directory instead of fetching them.
+ */
+export type ArtifactStore = {
+  directory: string;
+  manifest: ArtifactManifest;
+  /** The depth's artifacts, checked against the manifest and kept in memory after the first load */
+  load: (merkleTreeDepth: number) => Promise<ProofArtifacts>;
+  /** Drops the artifacts kept in memory */
+  clear: () => void;
+};
+
+/**
+ * Path of a depth's artifact, with the names @zk-kit/artifacts downloads them under.
+ */
+export function getArtifactPath(directory: string, merkleTreeDepth: number, type: "wasm" | "zkey"): string {
+  return join(directory, `semaphore-${merkleTreeDepth}.${type}`);
+}
+
+async function readArtifact(directory: string, merkleTreeDepth: number, type: "wasm" | "zkey"): Promise<Uint8Array> {
+  const path = getArtifactPath(directory, merkleTreeDepth, type);
+
+  try {
+    return new Uint8Array(await readFile(path));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Proof artifacts for tree depth ${merkleTreeDepth} are missing: ${path} does not exist`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Hashes the artifacts of the given depths, to pin a directory that is known to be good.
+ */
+export async function createArtifactManifest(directory: string, merkleTreeDepths: number[]): Promise<ArtifactManifest> {
+  const manifest: ArtifactManifest = {};
+
+  for (const depth of merkleTreeDepths) {
+    manifest[depth] = {
+      wasm: sha256(await readArtifact(directory, depth, "wasm")),
+      zkey: sha256(await readArtifact(directory, depth, "zkey")),
+    };
+  }
+
+  return manifest;
+}
+
+/**
+ * Reads a manifest written as JSON, e.g. `{ "1": { "wasm": "0x...", "zkey": "0x..." } }`.
+ */
+export async function readArtifactManifest(path: string): Promise<ArtifactManifest> {
+  return JSON.parse(await readFile(path, "utf8"));
+}
+
+/**
+ * Artifact store over a directory holding semaphore-<depth>.wasm and
+ * semaphore-<depth>.zkey. An artifact whose hash differs from the manifest is
+ * rejected, and a failed load is retried on the next call.
+ */
+export function createArtifactStore(directory: string, manifest: ArtifactManifest): ArtifactStore {
+  const loaded = new Map<number, Promise<ProofArtifacts>>();
+
+  async function loadChecked(merkleTreeDepth: number): Promise<ProofArtifacts> {
+    const pinned = manifest[merkleTreeDepth];
+    if (!pinned) {
+      throw new Error(`No proof artifacts pinned for tree depth ${merkleTreeDepth} in the manifest of ${directory}`);
+    }
+
+    const [wasm, zkey] = await Promise.all([
+      readArtifact(directory, merkleTreeDepth, "wasm"),
+      readArtifact(directory, merkleTreeDepth, "zkey"),
+    ]);
+
+    for (const [type, bytes] of [
+      ["wasm", wasm],
+      ["zkey", zkey],
+    ] as const) {
+      const hash = sha256(bytes);
+      if (hash.toLowerCase() !== pinned[type].toLowerCase()) {
+        throw new Error(
+          `${getArtifactPath(directory, merkleTreeDepth, type)} has hash ${hash}, the manifest pins ${pinned[type]}`,
+        );
+      }
+    }
+
+    return { wasm, zkey };
+  }
+
+  return {
+    directory,
+    manifest,
+    load: (merkleTreeDepth) => {
+      const cached = loaded.get(merkleTreeDepth);
+      if (cached) {
+        return cached;
+      }
+
+      const artifacts = loadChecked(merkleTreeDepth);
+      loaded.set(merkleTreeDepth, artifacts);
+      artifacts.catch(() => loaded.get(merkleTreeDepth) === artifacts && loaded.delete(merkleTreeDepth));
+
+      return artifacts;
+    },
+    clear: () => loaded.clear(),
+  };
+}
+
+/**
+ * Artifact store over a directory pinned by a manifest file, by default the
+ * directory's manifest.json.
+ */
+export async function openArtifactStore(
+  directory: string,
+  manifestPath: string = join(directory, "manifest.json"),
+): Promise<ArtifactStore> {
+  return createArtifactStore(directory, await readArtifactManifest(manifestPath));
+}
+
+/**
+ * generateProof with the artifacts of the group's depth from the store, or
+ * fetched by snarkjs when no store is given. Semaphore proves a group of one
+ * member with the depth 1 circuit.
+ */
+export async function generateSemaphoreProof(
+  identity: Identity,
+  group: Group,
+  message: BigNumberish,
+  scope: BigNumberish,
+  artifacts?: ArtifactStore,
+): Promise<SemaphoreProof> {
+  if (!artifacts) {
+    return generateProof(identity, group, message, scope);
+  }
+
+  const merkleTreeDepth = Math.max(group.depth, 1);
+  const { wasm, zkey } = await artifacts.load(merkleTreeDepth);
+
+  return generateProofWithArtifacts(identity, group, message, scope, merkleTreeDepth, { wasm, zkey });
+}
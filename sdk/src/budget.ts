@@ -0,0 +1,101 @@
+import { BigNumberish, Contract, Provider, toBigInt } from "ethers";
+import { Identity } from "@semaphore-protocol/core";
+import { GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI } from "./abis";
+import { deriveNullifier } from "./nullifier";
+import { generateGasLimitedScope } from "./scope";
+
+export type GasBudget = {
+  groupId: bigint;
+  epoch: bigint;
+  nullifier: bigint;
+  maxGasPerUserPerEpoch: bigint;
+  gasUsed: bigint;
+  gasRemaining: bigint;
+  /** Root recorded in gasData when the nullifier's last fresh proof was verified */
+  cachedMerkleRoot: bigint;
+  /** Account that proof was for, the only one the cached form is accepted from */
+  cachedSender: string;
+  merkleTreeRoot: bigint;
+  /** Whether the 0x01 cached form would pass the root and epoch checks right now, and the sender check when given one */
+  cacheValid: boolean;
+};
+
+/**
+ * Nullifier the member's proofs carry in the given epoch of a paymaster. It
+ * only depends on the identity and the scope, so it is derived without a proof.
+ */
+export function deriveGasLimitedNullifier(
+  identity: Identity,
+  chainId: BigNumberish,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  epoch: BigNumberish,
+): bigint {
+  return deriveNullifier(identity, generateGasLimitedScope(chainId, paymasterAddress, groupId, epoch));
+}
+
+/**
+ * Reads the gas data recorded for a nullifier and compares it to the group's
+ * allowance. With a sender, cacheValid also requires the cached nullifier to
+ * be bound to it.
+ */
+export async function readGasBudget(
+  provider: Provider,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  epoch: BigNumberish,
+  nullifier: BigNumberish,
+  sender?: string,
+): Promise<GasBudget> {
+  const paymaster = new Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, provider);
+
+  const [
+    [gasUsed, cachedMerkleRoot, recordedEpoch, cachedSender],
+    maxGasPerUserPerEpoch,
+    merkleTreeRoot,
+    currentEpoch,
+  ] = await Promise.all([
+    paymaster.gasData(nullifier) as Promise<[bigint, bigint, bigint, string]>,
+    paymaster.maxGasPerUserPerEpoch(groupId) as Promise<bigint>,
+    paymaster.getMerkleTreeRoot(groupId) as Promise<bigint>,
+    paymaster.currentEpoch() as Promise<bigint>,
+  ]);
+
+  return {
+    groupId: toBigInt(groupId),
+    epoch: toBigInt(epoch),
+    nullifier: toBigInt(nullifier),
+    maxGasPerUserPerEpoch,
+    gasUsed,
+    gasRemaining: gasUsed < maxGasPerUserPerEpoch ? maxGasPerUserPerEpoch - gasUsed : 0n,
+    cachedMerkleRoot,
+    cachedSender,
+    merkleTreeRoot,
+    cacheValid:
+      cachedMerkleRoot === merkleTreeRoot &&
+      recordedEpoch === currentEpoch &&
+      (sender === undefined || toBigInt(cachedSender) === toBigInt(sender)),
+  };
+}
+
+/**
+ * How much of maxGasPerUserPerEpoch a member has left. Defaults to the epoch stored in the paymaster.
+ */
+export async function getMemberGasBudget(
+  provider: Provider,
+  paymasterAddress: string,
+  identity: Identity,
+  groupId: BigNumberish,
+  epoch?: BigNumberish,
+  sender?: string,
+): Promise<GasBudget> {
+  if (epoch === undefined) {
+    const paymaster = new Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, provider);
+    epoch = (await paymaster.currentEpoch()) as bigint;
+  }
+
+  const { chainId } = await provider.getNetwork();
+  const nullifier = deriveGasLimitedNullifier(identity, chainId, paymasterAddress, groupId, epoch);
+
+  return readGasBudget(provider, paymasterAddress, groupId, epoch, nullifier, sender);
+}
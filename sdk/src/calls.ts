@@ -0,0 +1,77 @@
+import { BigNumberish, BytesLike, Interface, InterfaceAbi } from "ethers";
+import { ERC20_ABI, SIMPLE_ACCOUNT_ABI } from "./abis";
+
+/**
+ * One call the account makes when the operation executes.
+ */
+export type Call = {
+  to: string;
+  value?: BigNumberish;
+  data?: BytesLike;
+};
+
+const simpleAccountInterface = new Interface(SIMPLE_ACCOUNT_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+/**
+ * A call to a contract function, encoded from its ABI and arguments.
+ */
+export function createContractCall(
+  to: string,
+  abi: Interface | InterfaceAbi,
+  functionName: string,
+  args: readonly unknown[] = [],
+  value?: BigNumberish,
+): Call {
+  const iface = abi instanceof Interface ? abi : new Interface(abi);
+  return { to, value, data: iface.encodeFunctionData(functionName, args) };
+}
+
+export function createEthTransferCall(to: string, amount: BigNumberish): Call {
+  return { to, value: amount };
+}
+
+export function createErc20TransferCall(token: string, to: string, amount: BigNumberish): Call {
+  return createContractCall(token, erc20Interface, "transfer", [to, amount]);
+}
+
+export function createErc20ApproveCall(token: string, spender: string, amount: BigNumberish): Call {
+  return createContractCall(token, erc20Interface, "approve", [spender, amount]);
+}
+
+/**
+ * callData for SimpleAccount.execute, running a single call.
+ */
+export function encodeExecute(call: Call): string {
+  return simpleAccountInterface.encodeFunctionData("execute", [call.to, call.value ?? 0, call.data ?? "0x"]);
+}
+
+/**
+ * callData for SimpleAccount.executeBatch. The calls run in order and revert
+ * together, so they share the operation's proof and paymaster validation.
+ */
+export function encodeExecuteBatch(calls: Call[]): string {
+  // An empty value array tells the account none of the calls sends ETH
+  const values = calls.some((call) => call.value !== undefined) ? calls.map((call) => call.value ?? 0) : [];
+
+  return simpleAccountInterface.encodeFunctionData("executeBatch", [
+    calls.map((call) => call.to),
+    values,
+    calls.map((call) => call.data ?? "0x"),
+  ]);
+}
+
+/**
+ * callData for the calls: execute for one, executeBatch for several.
+ */
+export function encodeCalls(calls: Call | Call[]): string {
+  if (!Array.isArray(calls)) {
+    return encodeExecute(calls);
+  }
+
+  if (calls.length === 0) {
+    throw new Error("No calls to encode");
+  }
+
+  return calls.length === 1 ? encodeExecute(calls[0]) : encodeExecuteBatch(calls);
+}
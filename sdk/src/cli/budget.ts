@@ -0,0 +1,38 @@
+import { parseArgs } from "util";
+import { getMemberGasBudget } from "../budget";
+import { getProvider, parseIdentity, toJson } from "./utils";
+
+export const usage =
+  "budget <paymaster> --group <id> --identity <exported identity> [--epoch <n>] [--sender <address>] [--rpc <url>]";
+
+/**
+ * Shows how much of maxGasPerUserPerEpoch a member of a GasLimitedSemaphorePaymaster group has left.
+ */
+export async function budget(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      group: { type: "string" },
+      identity: { type: "string" },
+      epoch: { type: "string" },
+      sender: { type: "string" },
+      rpc: { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1 || !values.group || !values.identity) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const gasBudget = await getMemberGasBudget(
+    getProvider(values.rpc),
+    positionals[0],
+    parseIdentity(values.identity),
+    values.group,
+    values.epoch,
+    values.sender,
+  );
+
+  console.log(toJson(gasBudget));
+}
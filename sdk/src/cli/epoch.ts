@@ -0,0 +1,47 @@
+import { parseArgs } from "util";
+import { readEpochState, selectProofEpoch, startEpochKeeper } from "../epoch";
+import { getProvider, getSigner, toJson } from "./utils";
+
+export const usage = "epoch <paymaster> [--rpc <url>] [--keeper] [--interval <ms>]";
+
+/**
+ * Shows the stored and wall-clock epoch of a GasLimitedSemaphorePaymaster.
+ * With --keeper, keeps calling updateEpoch() whenever the stored epoch falls behind.
+ */
+export async function epoch(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      rpc: { type: "string" },
+      keeper: { type: "boolean" },
+      interval: { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const [paymasterAddress] = positionals;
+  const provider = getProvider(values.rpc);
+  const state = await readEpochState(provider, paymasterAddress);
+  const { warning } = selectProofEpoch(state);
+
+  console.log(toJson(state));
+  if (warning) {
+    console.warn(warning);
+  }
+
+  if (!values.keeper) {
+    return;
+  }
+
+  const keeper = startEpochKeeper(getSigner(provider), paymasterAddress, {
+    pollingInterval: values.interval ? Number(values.interval) : undefined,
+    onUpdate: (state, txHash) => console.log(`updateEpoch() to epoch ${state.wallClockEpoch} in ${txHash}`),
+    onError: (error) => console.error(error),
+  });
+
+  process.once("SIGINT", () => keeper.stop());
+}
@@ -0,0 +1,146 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { Group } from "@semaphore-protocol/core";
+import {
+  acceptGroupAdmin,
+  checkGroupRoot,
+  connectGroupAdmin,
+  createGroup,
+  DEFAULT_MEMBERS_BATCH_SIZE,
+} from "../groups";
+import { getProvider, getSigner, toJson } from "./utils";
+
+export const usage = [
+  "group create <paymaster> [--admin <address>] [--rpc <url>]",
+  "group add <paymaster> --group <id> --member <commitment>... [--members <file>] [--batch-size <n>] [--rpc <url>]",
+  "group update <paymaster> --group <id> --member <commitment> --new-member <commitment> --members <file> [--rpc <url>]",
+  "group remove <paymaster> --group <id> --member <commitment> --members <file> [--rpc <url>]",
+  "group transfer-admin <paymaster> --group <id> --admin <address> [--rpc <url>]",
+  "group accept-admin <paymaster> --group <id> [--rpc <url>]",
+  "group root <paymaster> --group <id> --members <file> [--rpc <url>]",
+].join("\n  ");
+
+/**
+ * Local group from a JSON array of identity commitments. A missing file is an empty group.
+ */
+function readMembers(path?: string): Group {
+  if (!path || !existsSync(path)) {
+    return new Group();
+  }
+
+  return new Group(JSON.parse(readFileSync(path, "utf8")));
+}
+
+function writeMembers(path: string | undefined, group: Group) {
+  if (path) {
+    writeFileSync(path, toJson(group.members) + "\n");
+  }
+}
+
+/**
+ * Manages the Semaphore groups of a paymaster. Commands that change members
+ * keep the --members file in sync and refuse to run when it does not match
+ * the paymaster's root.
+ */
+export async function group(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      group: { type: "string" },
+      member: { type: "string", multiple: true },
+      "new-member": { type: "string" },
+      members: { type: "string" },
+      "batch-size": { type: "string" },
+      admin: { type: "string" },
+      rpc: { type: "string" },
+    },
+  });
+
+  const [action, paymasterAddress] = positionals;
+  if (positionals.length !== 2) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const provider = getProvider(values.rpc);
+
+  if (action === "create") {
+    const groupId = await createGroup(getSigner(provider), paymasterAddress, values.admin);
+    console.log(`Created group ${groupId}`);
+    return;
+  }
+
+  if (!values.group) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const members = values.member ?? [];
+
+  switch (action) {
+    case "add": {
+      if (members.length === 0) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const admin = connectGroupAdmin(getSigner(provider), paymasterAddress, values.group, readMembers(values.members));
+      await admin.assertInSync();
+
+      const batchSize = Number(values["batch-size"] ?? DEFAULT_MEMBERS_BATCH_SIZE);
+      const receipts = await admin.addMembers(members, batchSize);
+      writeMembers(values.members, admin.group);
+
+      console.log(`Added ${members.length} members to group ${admin.groupId} in ${receipts.length} transactions`);
+      console.log(`Root: ${admin.group.root}`);
+      break;
+    }
+    case "update":
+    case "remove": {
+      if (members.length !== 1 || !values.members || (action === "update" && !values["new-member"])) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const admin = connectGroupAdmin(getSigner(provider), paymasterAddress, values.group, readMembers(values.members));
+      await admin.assertInSync();
+
+      const receipt =
+        action === "update"
+          ? await admin.updateMember(members[0], values["new-member"]!)
+          : await admin.removeMember(members[0]);
+      writeMembers(values.members, admin.group);
+
+      console.log(`${action === "update" ? "Updated" : "Removed"} ${members[0]} in ${receipt.hash}`);
+      console.log(`Root: ${admin.group.root}`);
+      break;
+    }
+    case "transfer-admin": {
+      if (!values.admin) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const admin = connectGroupAdmin(getSigner(provider), paymasterAddress, values.group);
+      const receipt = await admin.updateGroupAdmin(values.admin);
+      console.log(`Proposed ${values.admin} as admin of group ${values.group} in ${receipt.hash}`);
+      console.log("The new admin has to run accept-admin to complete the transfer");
+      break;
+    }
+    case "accept-admin": {
+      const receipt = await acceptGroupAdmin(getSigner(provider), paymasterAddress, values.group);
+      console.log(`Accepted admin of group ${values.group} in ${receipt.hash}`);
+      break;
+    }
+    case "root": {
+      if (!values.members) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const check = await checkGroupRoot(provider, paymasterAddress, values.group, readMembers(values.members));
+      console.log(toJson(check));
+      if (!check.inSync) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    default:
+      throw new Error(`Usage: ${usage}`);
+  }
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import * as budgetCommand from "./budget";
+import * as epochCommand from "./epoch";
+import * as groupCommand from "./group";
+import * as indexerCommand from "./indexer";
+import * as inspectCommand from "./inspect";
+import * as treasuryCommand from "./treasury";
+import * as watchCommand from "./watch";
+
+type Command = {
+  usage: string;
+  run: (args: string[]) => Promise<void>;
+};
+
+const commands: Record<string, Command> = {
+  inspect: { usage: inspectCommand.usage, run: inspectCommand.inspect },
+  epoch: { usage: epochCommand.usage, run: epochCommand.epoch },
+  budget: { usage: budgetCommand.usage, run: budgetCommand.budget },
+  group: { usage: groupCommand.usage, run: groupCommand.group },
+  indexer: { usage: indexerCommand.usage, run: indexerCommand.indexer },
+  treasury: { usage: treasuryCommand.usage, run: treasuryCommand.treasury },
+  watch: { usage: watchCommand.usage, run: watchCommand.watch },
+};
+
+function printUsage() {
+  console.log("Usage: semaphore-paymaster <command> [options]\n\nCommands:");
+  for (const command of Object.values(commands)) {
+    console.log(`  ${command.usage}`);
+  }
+}
+
+async function main(argv: string[]) {
+  const [name, ...args] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    printUsage();
+    process.exitCode = name ? 1 : 0;
+    return;
+  }
+
+  await command.run(args);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
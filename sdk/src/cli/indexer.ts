@@ -0,0 +1,80 @@
+import { parseArgs } from "util";
+import { buildGroup, createJsonFileStore, startGroupIndexer, syncGroupEvents, SyncResult } from "../indexer";
+import { getProvider, toJson } from "./utils";
+
+export const usage = [
+  "indexer sync <paymaster> --store <file> [--from-block <n>] [--watch] [--interval <ms>] [--rpc <url>]",
+  "indexer members <paymaster> --store <file> --group <id> [--block <n>]",
+].join("\n  ");
+
+function printSync({ fromBlock, toBlock, newEvents }: SyncResult) {
+  if (toBlock >= fromBlock) {
+    console.log(`Indexed blocks ${fromBlock}-${toBlock}: ${newEvents.length} new group events`);
+  }
+}
+
+/**
+ * Indexes the Semaphore group events of a paymaster into a JSON file, or
+ * prints the members of a group rebuilt from it. The members output can be
+ * used as the --members file of the group command.
+ */
+export async function indexer(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      store: { type: "string" },
+      "from-block": { type: "string" },
+      watch: { type: "boolean" },
+      interval: { type: "string" },
+      group: { type: "string" },
+      block: { type: "string" },
+      rpc: { type: "string" },
+    },
+  });
+
+  const [action, paymasterAddress] = positionals;
+  if (positionals.length !== 2 || !values.store) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const store = createJsonFileStore(values.store);
+
+  switch (action) {
+    case "sync": {
+      const provider = getProvider(values.rpc);
+      const fromBlock = Number(values["from-block"] ?? 0);
+
+      if (!values.watch) {
+        printSync(await syncGroupEvents(provider, paymasterAddress, store, { fromBlock }));
+        break;
+      }
+
+      const indexer = startGroupIndexer(provider, paymasterAddress, store, {
+        fromBlock,
+        pollingInterval: values.interval ? Number(values.interval) : undefined,
+        onSync: printSync,
+        onError: (error) => console.error(error),
+      });
+
+      process.once("SIGINT", () => indexer.stop());
+      break;
+    }
+    case "members": {
+      if (!values.group) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const state = await store.load();
+      if (!state) {
+        throw new Error(`Nothing indexed in ${values.store} yet`);
+      }
+
+      const group = buildGroup(state.events, values.group, values.block ? Number(values.block) : undefined);
+      console.log(toJson(group.members));
+      break;
+    }
+    default:
+      throw new Error(`Usage: ${usage}`);
+  }
+}
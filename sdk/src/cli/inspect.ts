@@ -0,0 +1,22 @@
+import { parseArgs } from "util";
+import { inspectPaymasterAndData, inspectUserOperation } from "../inspect";
+import { readHexOrJsonFile, toJson } from "./utils";
+
+export const usage = "inspect <paymasterAndData | userOp.json>";
+
+/**
+ * Decodes paymasterAndData given as a hex string, or taken from a user
+ * operation JSON file (packed or unpacked form).
+ */
+export async function inspect(args: string[]) {
+  const { positionals } = parseArgs({ args, allowPositionals: true });
+
+  if (positionals.length !== 1) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const input = readHexOrJsonFile(positionals[0]);
+  const inspection = typeof input === "string" ? inspectPaymasterAndData(input) : inspectUserOperation(input);
+
+  console.log(toJson(inspection));
+}
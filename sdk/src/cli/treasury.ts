@@ -0,0 +1,75 @@
+import { parseArgs } from "util";
+import { formatEther, parseEther } from "ethers";
+import { depositForGroup, readGroupBalance, readTreasury } from "../treasury";
+import { getProvider, getSigner, toJson } from "./utils";
+
+export const usage = [
+  "treasury deposit <paymaster> --group <id> --amount <eth> [--rpc <url>]",
+  "treasury balance <paymaster> --group <id> [--rpc <url>]",
+  "treasury list <paymaster> [--from-block <n>] [--rpc <url>]",
+].join("\n  ");
+
+/**
+ * Deposits for a group, shows a group's balance, or lists every funded group
+ * and flags drift from the paymaster's EntryPoint deposit.
+ */
+export async function treasury(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      group: { type: "string" },
+      amount: { type: "string" },
+      "from-block": { type: "string" },
+      rpc: { type: "string" },
+    },
+  });
+
+  const [action, paymasterAddress] = positionals;
+  if (positionals.length !== 2) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const provider = getProvider(values.rpc);
+
+  switch (action) {
+    case "deposit": {
+      if (!values.group || !values.amount) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const receipt = await depositForGroup(
+        getSigner(provider),
+        paymasterAddress,
+        values.group,
+        parseEther(values.amount),
+      );
+      console.log(`Deposited ${values.amount} ETH for group ${values.group} in ${receipt.hash}`);
+      break;
+    }
+    case "balance": {
+      if (!values.group) {
+        throw new Error(`Usage: ${usage}`);
+      }
+
+      const balance = await readGroupBalance(provider, paymasterAddress, values.group);
+      console.log(`Group ${balance.groupId}: ${formatEther(balance.groupDeposit)} ETH`);
+      console.log(`EntryPoint deposit: ${formatEther(balance.entryPointBalance)} ETH`);
+      break;
+    }
+    case "list": {
+      const report = await readTreasury(provider, paymasterAddress, Number(values["from-block"] ?? 0));
+
+      console.log(toJson(report));
+      if (report.drift !== 0n) {
+        console.warn(
+          `Group deposits (${formatEther(report.totalGroupDeposits)} ETH) drift from the EntryPoint deposit ` +
+            `(${formatEther(report.entryPointBalance)} ETH) by ${formatEther(report.drift)} ETH`,
+        );
+      }
+      break;
+    }
+    default:
+      throw new Error(`Usage: ${usage}`);
+  }
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from "fs";
+import { isHexString, JsonRpcProvider, Wallet } from "ethers";
+import { Identity } from "@semaphore-protocol/core";
+
+/**
+ * JSON.stringify with bigints written as decimal strings.
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+/**
+ * Returns the argument as is when it is a hex string, otherwise reads it as a JSON file.
+ */
+export function readHexOrJsonFile(arg: string): string | Record<string, unknown> {
+  if (isHexString(arg)) {
+    return arg;
+  }
+
+  return JSON.parse(readFileSync(arg, "utf8"));
+}
+
+/**
+ * Provider for the --rpc option, falling back to NODE_URL like the contracts tests.
+ */
+export function getProvider(rpc?: string): JsonRpcProvider {
+  const url = rpc ?? process.env.NODE_URL;
+  if (!url) {
+    throw new Error("Pass --rpc or set NODE_URL");
+  }
+
+  return new JsonRpcProvider(url);
+}
+
+/**
+ * Wallet for commands that send transactions, read from PRIVATE_KEY.
+ */
+export function getSigner(provider: JsonRpcProvider): Wallet {
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error("Set PRIVATE_KEY to send transactions");
+  }
+
+  return new Wallet(process.env.PRIVATE_KEY, provider);
+}
+
+/**
+ * Identity from the base64 private key produced by Identity.export().
+ */
+export function parseIdentity(exported: string): Identity {
+  return Identity.import(exported);
+}
@@ -0,0 +1,57 @@
+import { parseArgs } from "util";
+import { parseEther } from "ethers";
+import { AlertSink, createJsonFileSink, createStdoutSink, createWebhookSink, startBalanceWatcher } from "../watcher";
+import { getProvider } from "./utils";
+
+export const usage =
+  "watch <paymaster> --group <id>... [--min-runway <ops>] [--default-prefund <eth>] " +
+  "[--sink stdout | webhook:<url> | file:<path>]... [--interval <ms>] [--rpc <url>]";
+
+function parseSink(sink: string): AlertSink {
+  if (sink === "stdout") {
+    return createStdoutSink();
+  }
+  if (sink.startsWith("webhook:")) {
+    return createWebhookSink(sink.slice("webhook:".length));
+  }
+  if (sink.startsWith("file:")) {
+    return createJsonFileSink(sink.slice("file:".length));
+  }
+
+  throw new Error(`Unknown sink ${sink}`);
+}
+
+/**
+ * Watches group deposits and alerts when a group drops below the minimum
+ * number of worst-case operations it can pay for.
+ */
+export async function watch(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      group: { type: "string", multiple: true },
+      "min-runway": { type: "string", default: "10" },
+      "default-prefund": { type: "string", default: "0.01" },
+      sink: { type: "string", multiple: true, default: ["stdout"] },
+      interval: { type: "string" },
+      rpc: { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1 || !values.group) {
+    throw new Error(`Usage: ${usage}`);
+  }
+
+  const watcher = startBalanceWatcher(getProvider(values.rpc), {
+    paymasterAddress: positionals[0],
+    groupIds: values.group,
+    minRunway: values["min-runway"],
+    defaultPrefund: parseEther(values["default-prefund"]),
+    sinks: values.sink.map(parseSink),
+    pollingInterval: values.interval ? Number(values.interval) : undefined,
+    onError: (error) => console.error(error),
+  });
+
+  process.once("SIGINT", () => watcher.stop());
+}
@@ -0,0 +1,57 @@
+import { BigNumberish } from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import {
+  CachedPaymasterData,
+  decodeCachedPaymasterData,
+  encodeCachedPaymasterData,
+  generateCachedPaymasterData,
+} from "../paymasterData";
+import { assertGroupInSync } from "../groups";
+import { SemaphoreProofStruct } from "../types";
+import { diagnoseUserOperationError, validateUserOperation } from "../validate";
+import { buildSponsoredUserOperation, createSponsoredUserOperation, getProofGenerator } from "./common";
+import { PaymasterClient, PaymasterClientConfig } from "./types";
+
+export type CachedPaymasterClient = PaymasterClient<"cached", CachedPaymasterData> & {
+  generatePaymasterData: (
+    identity: Identity,
+    group: Group,
+    message: bigint,
+    groupId: number,
+    useCache?: boolean,
+  ) => Promise<string>;
+  encodePaymasterData: (groupId: BigNumberish, proof?: SemaphoreProofStruct) => string;
+};
+
+/**
+ * Client for CachedSemaphorePaymaster. generatePaymasterData checks the local
+ * group against getMerkleTreeRoot before generating a proof.
+ */
+export function createCachedPaymasterClient(config: PaymasterClientConfig): CachedPaymasterClient {
+  return {
+    variant: "cached",
+    config,
+    generatePaymasterData: async (identity, group, message, groupId, useCache) => {
+      if (!useCache) {
+        await assertGroupInSync(config.provider, config.paymasterAddress, groupId, group);
+      }
+      const { chainId } = await config.provider.getNetwork();
+      return generateCachedPaymasterData(
+        identity,
+        group,
+        message,
+        groupId,
+        chainId,
+        config.paymasterAddress,
+        useCache,
+        getProofGenerator(config),
+      );
+    },
+    encodePaymasterData: encodeCachedPaymasterData,
+    decodePaymasterData: decodeCachedPaymasterData,
+    createUserOperation: (params) => createSponsoredUserOperation(config, "cached", params),
+    buildUserOperation: (params) => buildSponsoredUserOperation(config, "cached", params),
+    validateUserOperation: (userOp) => validateUserOperation(config.provider, "cached", userOp),
+    diagnoseUserOperationError: (userOp, error) => diagnoseUserOperationError(config.provider, "cached", userOp, error),
+  };
+}
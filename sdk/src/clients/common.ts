@@ -0,0 +1,122 @@
+import { Contract, dataLength } from "ethers";
+import { CACHED_SEMAPHORE_PAYMASTER_ABI, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI } from "../abis";
+import { createUserOperation, DUMMY_SIGNATURE } from "../userOp";
+import { selectGasStrategy } from "../gas";
+import { getNonce } from "../nonce";
+import { createLocalProofGenerator, ProofGenerator } from "../prover";
+import { createDummyPaymasterData } from "../paymasterData";
+import { generateVariantScope } from "../scope";
+import { signUserOperation } from "../signer";
+import { PaymasterVariant, SemaphoreProofStruct, UserOperation } from "../types";
+import { BuildUserOperationParams, PaymasterClientConfig, SponsoredUserOperationParams } from "./types";
+
+const DEFAULT_POST_OP_GAS_LIMIT = 100000;
+
+/**
+ * The configured proof generator, or proofs on the calling thread with the configured artifacts.
+ */
+export function getProofGenerator(config: PaymasterClientConfig): ProofGenerator {
+  return config.generateProof ?? createLocalProofGenerator(config.artifacts);
+}
+
+/**
+ * Estimates gas for the operation through the bundler and returns it with the
+ * paymaster fields filled in. The signature defaults to DUMMY_SIGNATURE and
+ * the gas strategy to the variant's preset for the form of the paymaster data.
+ */
+export async function createSponsoredUserOperation(
+  config: PaymasterClientConfig,
+  variant: PaymasterVariant,
+  params: SponsoredUserOperationParams,
+): Promise<UserOperation> {
+  const userOp: UserOperation = await createUserOperation(
+    config.provider,
+    config.bundlerProvider,
+    params.sender,
+    params.factoryParams ?? { factory: "0x", factoryData: "0x" },
+    params.callData,
+    config.entryPointAddress,
+    "0x",
+    config.paymasterAddress,
+    params.paymasterPostOpGasLimit ?? DEFAULT_POST_OP_GAS_LIMIT,
+    params.paymasterData,
+    params.gasStrategy ?? selectGasStrategy(variant, params.paymasterData),
+    params.nonce ?? (await getNonce(config.provider, config.entryPointAddress, params.sender, params.nonceKey)),
+  );
+
+  userOp.signature = params.signature ?? DUMMY_SIGNATURE;
+
+  return userOp;
+}
+
+/**
+ * The proof fields the paymaster checks before verifying the proof, so the
+ * placeholder goes through the same checks as the real proof. The Excubiae
+ * policy reverts on a proof it can't verify, so its placeholder keeps a wrong
+ * message and stops at the paymaster's own checks.
+ */
+async function readDummyProofFields(
+  config: PaymasterClientConfig,
+  variant: PaymasterVariant,
+  sender: string,
+  groupId: bigint,
+): Promise<Partial<SemaphoreProofStruct>> {
+  if (variant === "excubiae") {
+    return {};
+  }
+
+  const paymaster = new Contract(
+    config.paymasterAddress,
+    variant === "gasLimited" ? GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI : CACHED_SEMAPHORE_PAYMASTER_ABI,
+    config.provider,
+  );
+
+  const merkleTreeRoot: bigint = await paymaster.getMerkleTreeRoot(groupId);
+  const scope = generateVariantScope(variant, groupId, {
+    chainId: (await config.provider.getNetwork()).chainId,
+    paymasterAddress: config.paymasterAddress,
+    epoch: variant === "gasLimited" ? await paymaster.currentEpoch() : undefined,
+  });
+
+  return { merkleTreeRoot, message: BigInt(sender), scope };
+}
+
+/**
+ * Builds the operation in two passes. Gas is estimated with placeholder
+ * paymaster data of the variant's layout, so preVerificationGas and the
+ * paymaster gas cover the proof that is sent; the real paymaster data is
+ * then generated for the sized operation, which is signed last.
+ */
+export async function buildSponsoredUserOperation(
+  config: PaymasterClientConfig,
+  variant: PaymasterVariant,
+  params: BuildUserOperationParams,
+): Promise<UserOperation> {
+  const groupId = BigInt(params.groupId);
+  const dummyPaymasterData = createDummyPaymasterData(variant, {
+    groupId,
+    useCache: params.useCache,
+    proof: { ...(await readDummyProofFields(config, variant, params.sender, groupId)), ...params.dummyProof },
+  });
+
+  const userOp = await createSponsoredUserOperation(config, variant, {
+    ...params,
+    paymasterData: dummyPaymasterData,
+  });
+
+  const paymasterData = await params.generatePaymasterData(userOp);
+  if (dataLength(paymasterData) !== dataLength(dummyPaymasterData)) {
+    throw new Error(
+      `Paymaster data is ${dataLength(paymasterData)} bytes, the operation was estimated with ${dataLength(dummyPaymasterData)}`,
+    );
+  }
+
+  userOp.paymasterData = paymasterData;
+
+  if (!params.signUserOperation) {
+    return userOp;
+  }
+
+  const { chainId } = await config.provider.getNetwork();
+  return signUserOperation(userOp, config.entryPointAddress, Number(chainId), params.signUserOperation);
+}
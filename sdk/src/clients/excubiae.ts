@@ -0,0 +1,37 @@
+import { BigNumberish, BytesLike } from "ethers";
+import {
+  decodeExcubiaePaymasterData,
+  encodeExcubiaeEvidence,
+  encodeExcubiaePaymasterData,
+  ExcubiaePaymasterData,
+  generateExcubiaePaymasterData,
+} from "../paymasterData";
+import { SemaphoreProofStruct } from "../types";
+import { diagnoseUserOperationError, validateUserOperation } from "../validate";
+import { buildSponsoredUserOperation, createSponsoredUserOperation } from "./common";
+import { PaymasterClient, PaymasterClientConfig } from "./types";
+
+export type ExcubiaePaymasterClient = PaymasterClient<"excubiae", ExcubiaePaymasterData> & {
+  generatePaymasterData: (groupId: number, evidence: string) => Promise<string>;
+  encodeEvidence: (proof: SemaphoreProofStruct) => string;
+  encodePaymasterData: (groupId: BigNumberish, evidence: BytesLike) => string;
+};
+
+/**
+ * Client for ExcubiaeSemaphorePaymaster.
+ */
+export function createExcubiaePaymasterClient(config: PaymasterClientConfig): ExcubiaePaymasterClient {
+  return {
+    variant: "excubiae",
+    config,
+    generatePaymasterData: generateExcubiaePaymasterData,
+    encodeEvidence: encodeExcubiaeEvidence,
+    encodePaymasterData: encodeExcubiaePaymasterData,
+    decodePaymasterData: decodeExcubiaePaymasterData,
+    createUserOperation: (params) => createSponsoredUserOperation(config, "excubiae", params),
+    buildUserOperation: (params) => buildSponsoredUserOperation(config, "excubiae", params),
+    validateUserOperation: (userOp) => validateUserOperation(config.provider, "excubiae", userOp),
+    diagnoseUserOperationError: (userOp, error) =>
+      diagnoseUserOperationError(config.provider, "excubiae", userOp, error),
+  };
+}
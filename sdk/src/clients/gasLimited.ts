@@ -0,0 +1,72 @@
+import { BigNumberish } from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import {
+  decodeGasLimitedPaymasterData,
+  encodeGasLimitedPaymasterData,
+  GasLimitedPaymasterData,
+  generateGasLimitedPaymasterData,
+} from "../paymasterData";
+import { GasBudget, getMemberGasBudget } from "../budget";
+import { EpochState, readEpochState } from "../epoch";
+import { assertGroupInSync } from "../groups";
+import { SemaphoreProofStruct } from "../types";
+import { diagnoseUserOperationError, validateUserOperation } from "../validate";
+import { buildSponsoredUserOperation, createSponsoredUserOperation, getProofGenerator } from "./common";
+import { PaymasterClient, PaymasterClientConfig } from "./types";
+
+export type GasLimitedPaymasterClient = PaymasterClient<"gasLimited", GasLimitedPaymasterData> & {
+  generatePaymasterData: (
+    identity: Identity,
+    group: Group,
+    message: bigint,
+    groupId: number,
+    epoch: BigNumberish,
+    useCache?: boolean,
+  ) => Promise<{ paymasterData: string; nullifier: string }>;
+  encodePaymasterData: (groupId: BigNumberish, proofOrNullifier: SemaphoreProofStruct | BigNumberish) => string;
+  readEpochState: () => Promise<EpochState>;
+  getMemberGasBudget: (
+    identity: Identity,
+    groupId: BigNumberish,
+    epoch?: BigNumberish,
+    sender?: string,
+  ) => Promise<GasBudget>;
+};
+
+/**
+ * Client for GasLimitedSemaphorePaymaster. generatePaymasterData checks the local
+ * group against getMerkleTreeRoot before generating a proof.
+ */
+export function createGasLimitedPaymasterClient(config: PaymasterClientConfig): GasLimitedPaymasterClient {
+  return {
+    variant: "gasLimited",
+    config,
+    generatePaymasterData: async (identity, group, message, groupId, epoch, useCache) => {
+      if (!useCache) {
+        await assertGroupInSync(config.provider, config.paymasterAddress, groupId, group);
+      }
+      const { chainId } = await config.provider.getNetwork();
+      return generateGasLimitedPaymasterData(
+        identity,
+        group,
+        message,
+        groupId,
+        epoch,
+        chainId,
+        config.paymasterAddress,
+        useCache,
+        getProofGenerator(config),
+      );
+    },
+    encodePaymasterData: encodeGasLimitedPaymasterData,
+    decodePaymasterData: decodeGasLimitedPaymasterData,
+    readEpochState: () => readEpochState(config.provider, config.paymasterAddress),
+    getMemberGasBudget: (identity, groupId, epoch, sender) =>
+      getMemberGasBudget(config.provider, config.paymasterAddress, identity, groupId, epoch, sender),
+    createUserOperation: (params) => createSponsoredUserOperation(config, "gasLimited", params),
+    buildUserOperation: (params) => buildSponsoredUserOperation(config, "gasLimited", params),
+    validateUserOperation: (userOp) => validateUserOperation(config.provider, "gasLimited", userOp),
+    diagnoseUserOperationError: (userOp, error) =>
+      diagnoseUserOperationError(config.provider, "gasLimited", userOp, error),
+  };
+}
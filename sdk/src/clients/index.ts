@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./simple";
+export * from "./cached";
+export * from "./gasLimited";
+export * from "./excubiae";
+export * from "./smart";
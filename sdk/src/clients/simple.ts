@@ -0,0 +1,48 @@
+import { BigNumberish } from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import {
+  decodeSimplePaymasterData,
+  encodeSimplePaymasterData,
+  generatePaymasterData,
+  SimplePaymasterData,
+} from "../paymasterData";
+import { assertGroupInSync } from "../groups";
+import { SemaphoreProofStruct } from "../types";
+import { diagnoseUserOperationError, validateUserOperation } from "../validate";
+import { buildSponsoredUserOperation, createSponsoredUserOperation, getProofGenerator } from "./common";
+import { PaymasterClient, PaymasterClientConfig } from "./types";
+
+export type SimplePaymasterClient = PaymasterClient<"simple", SimplePaymasterData> & {
+  generatePaymasterData: (identity: Identity, group: Group, message: bigint, groupId: number) => Promise<string>;
+  encodePaymasterData: (groupId: BigNumberish, proof: SemaphoreProofStruct) => string;
+};
+
+/**
+ * Client for SimpleSemaphorePaymaster. generatePaymasterData checks the local
+ * group against getMerkleTreeRoot before generating a proof.
+ */
+export function createSimplePaymasterClient(config: PaymasterClientConfig): SimplePaymasterClient {
+  return {
+    variant: "simple",
+    config,
+    generatePaymasterData: async (identity, group, message, groupId) => {
+      await assertGroupInSync(config.provider, config.paymasterAddress, groupId, group);
+      const { chainId } = await config.provider.getNetwork();
+      return generatePaymasterData(
+        identity,
+        group,
+        message,
+        groupId,
+        chainId,
+        config.paymasterAddress,
+        getProofGenerator(config),
+      );
+    },
+    encodePaymasterData: encodeSimplePaymasterData,
+    decodePaymasterData: decodeSimplePaymasterData,
+    createUserOperation: (params) => createSponsoredUserOperation(config, "simple", params),
+    buildUserOperation: (params) => buildSponsoredUserOperation(config, "simple", params),
+    validateUserOperation: (userOp) => validateUserOperation(config.provider, "simple", userOp),
+    diagnoseUserOperationError: (userOp, error) => diagnoseUserOperationError(config.provider, "simple", userOp, error),
+  };
+}
@@ -0,0 +1,214 @@
+import { Contract } from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import { CACHED_SEMAPHORE_PAYMASTER_ABI, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI } from "../abis";
+import { deriveGasLimitedNullifier, readGasBudget } from "../budget";
+import { ReceiptTimeoutError, UserOperationError } from "../errors";
+import { UserOperationReceipt } from "../receipt";
+import { UserOperation } from "../types";
+import { sendUserOpAndWait } from "../userOp";
+import { CachedPaymasterClient, createCachedPaymasterClient } from "./cached";
+import { createGasLimitedPaymasterClient, GasLimitedPaymasterClient } from "./gasLimited";
+import { BuildUserOperationParams, PaymasterClientConfig } from "./types";
+
+/** Paymaster variants with a cached form of the paymaster data */
+export type CachingPaymasterVariant = "cached" | "gasLimited";
+
+/**
+ * Whether the 0x01 cached form would pass right now, with the state it was
+ * decided on: a fresh proof is needed again once the root or epoch moves.
+ */
+export type CachedProofState = {
+  useCache: boolean;
+  merkleTreeRoot: bigint;
+  /** Epoch stored in the GasLimited paymaster, the scope of its proofs */
+  epoch?: bigint;
+};
+
+export type SmartUserOperationParams = Omit<
+  BuildUserOperationParams,
+  "groupId" | "useCache" | "dummyProof" | "generatePaymasterData"
+> & {
+  identity: Identity;
+  groupId: number;
+  /** Group for fresh proofs, or a function returning the latest one, e.g. from the group indexer */
+  group: Group | (() => Promise<Group>);
+  /** Proof message, the sender by default as the paymasters require */
+  message?: bigint;
+  /** Operations sent in all, the first one included; 3 by default */
+  maxAttempts?: number;
+  /** Milliseconds between receipt polls, 100 by default */
+  receiptPollingDelay?: number;
+  /** Receipt polls before an operation is given up on, 200 by default */
+  maxReceiptAttempts?: number;
+  /**
+   * Called before an operation is rebuilt because the root or epoch moved
+   * while it was in flight, after a rejection or a missing receipt
+   */
+  onRetry?: (error: UserOperationError | ReceiptTimeoutError, attempt: number) => void;
+};
+
+export type SmartUserOperationResult = {
+  userOp: UserOperation;
+  receipt: UserOperationReceipt;
+  /** Whether the included operation used the cached form */
+  useCache: boolean;
+  attempts: number;
+};
+
+export type SmartPaymasterClient<V extends CachingPaymasterVariant> = {
+  variant: V;
+  config: PaymasterClientConfig;
+  client: V extends "cached" ? CachedPaymasterClient : GasLimitedPaymasterClient;
+  readCachedProofState: (sender: string, identity: Identity, groupId: number) => Promise<CachedProofState>;
+  sendUserOperation: (params: SmartUserOperationParams) => Promise<SmartUserOperationResult>;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Reads whether the paymaster would accept the cached form: isValidCachedProof
+ * for the Cached paymaster, the root, epoch and sender recorded in gasData for
+ * the identity's nullifier for the GasLimited one.
+ */
+export async function readCachedProofState(
+  config: PaymasterClientConfig,
+  variant: CachingPaymasterVariant,
+  sender: string,
+  identity: Identity,
+  groupId: number,
+): Promise<CachedProofState> {
+  if (variant === "cached") {
+    const paymaster = new Contract(config.paymasterAddress, CACHED_SEMAPHORE_PAYMASTER_ABI, config.provider);
+    const [useCache, merkleTreeRoot] = await Promise.all([
+      paymaster.isValidCachedProof(sender, groupId) as Promise<boolean>,
+      paymaster.getMerkleTreeRoot(groupId) as Promise<bigint>,
+    ]);
+
+    return { useCache, merkleTreeRoot };
+  }
+
+  const paymaster = new Contract(config.paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, config.provider);
+  const epoch: bigint = await paymaster.currentEpoch();
+  const { chainId } = await config.provider.getNetwork();
+  const budget = await readGasBudget(
+    config.provider,
+    config.paymasterAddress,
+    groupId,
+    epoch,
+    deriveGasLimitedNullifier(identity, chainId, config.paymasterAddress, groupId, epoch),
+    sender,
+  );
+
+  return { useCache: budget.cacheValid, merkleTreeRoot: budget.merkleTreeRoot, epoch };
+}
+
+/**
+ * Client for the Cached and GasLimited paymasters that picks the form of the
+ * paymaster data itself. The cheap cached form is sent only when the
+ * paymaster would accept it, and a fresh proof otherwise. When an operation
+ * is rejected or never included after a member change moved the root (or
+ * the epoch moved), it is rebuilt with a new proof and sent again.
+ */
+export function createSmartPaymasterClient<V extends CachingPaymasterVariant>(
+  config: PaymasterClientConfig,
+  variant: V,
+): SmartPaymasterClient<V> {
+  const client = variant === "cached" ? createCachedPaymasterClient(config) : createGasLimitedPaymasterClient(config);
+
+  async function generatePaymasterData(
+    identity: Identity,
+    group: Group,
+    message: bigint,
+    groupId: number,
+    state: CachedProofState,
+  ): Promise<string> {
+    if (client.variant === "cached") {
+      return client.generatePaymasterData(identity, group, message, groupId, state.useCache);
+    }
+
+    if (state.epoch === undefined) {
+      throw new Error("The GasLimited paymaster state has no epoch");
+    }
+
+    const { paymasterData } = await client.generatePaymasterData(
+      identity,
+      group,
+      message,
+      groupId,
+      state.epoch,
+      state.useCache,
+    );
+    return paymasterData;
+  }
+
+  return {
+    variant,
+    config,
+    client: client as SmartPaymasterClient<V>["client"],
+    readCachedProofState: (sender, identity, groupId) =>
+      readCachedProofState(config, variant, sender, identity, groupId),
+    sendUserOperation: async ({
+      identity,
+      group,
+      message,
+      maxAttempts = DEFAULT_MAX_ATTEMPTS,
+      receiptPollingDelay,
+      maxReceiptAttempts,
+      onRetry,
+      ...params
+    }) => {
+      const readState = () => readCachedProofState(config, variant, params.sender, identity, params.groupId);
+
+      for (let attempt = 1; ; attempt++) {
+        const state = await readState();
+        const userOp = await client.buildUserOperation({
+          ...params,
+          useCache: state.useCache,
+          generatePaymasterData: async (op) =>
+            generatePaymasterData(
+              identity,
+              // The cached form doesn't carry a proof, so the group is only needed for a fresh one
+              state.useCache ? new Group() : typeof group === "function" ? await group() : group,
+              message ?? BigInt(op.sender),
+              params.groupId,
+              state,
+            ),
+        });
+
+        try {
+          const receipt = await sendUserOpAndWait(
+            userOp,
+            config.entryPointAddress,
+            config.bundlerProvider,
+            receiptPollingDelay,
+            maxReceiptAttempts,
+          );
+          return { userOp, receipt, useCache: state.useCache, attempts: attempt };
+        } catch (error) {
+          let failure: UserOperationError | ReceiptTimeoutError;
+
+          if (error instanceof UserOperationError) {
+            failure = await client.diagnoseUserOperationError(userOp, error);
+          } else if (error instanceof ReceiptTimeoutError) {
+            // A bundler may drop an operation that fails validation after the root moved
+            failure = error;
+          } else {
+            throw error;
+          }
+
+          if (attempt >= maxAttempts) {
+            throw failure;
+          }
+
+          // Only a failure after the root or epoch moved is fixed by rebuilding the operation
+          const current = await readState();
+          if (current.merkleTreeRoot === state.merkleTreeRoot && current.epoch === state.epoch) {
+            throw failure;
+          }
+
+          onRetry?.(failure, attempt);
+        }
+      }
+    },
+  };
+}
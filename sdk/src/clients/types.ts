@@ -0,0 +1,64 @@
+import { BigNumberish, BytesLike, JsonRpcApiProvider } from "ethers";
+import { ArtifactStore } from "../artifacts";
+import { FactoryParams, PaymasterVariant, SemaphoreProofStruct, UserOperation } from "../types";
+import { UserOperationError } from "../errors";
+import { GasStrategy } from "../gas";
+import { ProofGenerator } from "../prover";
+import { UserOperationSigner } from "../signer";
+import { ValidationIssue } from "../validate";
+
+export type PaymasterClientConfig = {
+  paymasterAddress: string;
+  entryPointAddress: string;
+  provider: JsonRpcApiProvider;
+  bundlerProvider: JsonRpcApiProvider;
+  /** Local proof artifacts, fetched over the network by snarkjs when omitted */
+  artifacts?: ArtifactStore;
+  /** Generates the proofs instead, e.g. a proof pool, which then loads the artifacts itself */
+  generateProof?: ProofGenerator;
+};
+
+export type SponsoredUserOperationParams = {
+  sender: string;
+  callData: string;
+  paymasterData: BytesLike;
+  factoryParams?: FactoryParams;
+  paymasterPostOpGasLimit?: BigNumberish;
+  signature?: string;
+  gasStrategy?: GasStrategy;
+  /** Key of the EntryPoint's 2D nonce, 0 by default */
+  nonceKey?: BigNumberish;
+  /** Full nonce to use, e.g. from a NonceManager, instead of reading the key's next one */
+  nonce?: BigNumberish;
+};
+
+/**
+ * Parameters of the two-pass builder: gas is estimated with placeholder
+ * paymaster data of the real layout and size, then the real paymaster data
+ * is generated for the sized operation and the operation is signed.
+ */
+export type BuildUserOperationParams = Omit<SponsoredUserOperationParams, "paymasterData" | "signature"> & {
+  groupId: BigNumberish;
+  /** Estimate the cached form of the Cached and GasLimited layouts */
+  useCache?: boolean;
+  /** Proof fields for the placeholder, over the ones the builder reads from the paymaster */
+  dummyProof?: Partial<SemaphoreProofStruct>;
+  /** Real paymaster data for the sized operation, same layout as the placeholder */
+  generatePaymasterData: (userOp: UserOperation) => Promise<BytesLike>;
+  /** Signs the userOpHash, DUMMY_SIGNATURE is kept when omitted */
+  signUserOperation?: UserOperationSigner;
+};
+
+/**
+ * Members shared by every paymaster client. Each variant adds its own
+ * generate and encode functions on top.
+ */
+export type PaymasterClient<V extends PaymasterVariant, D> = {
+  variant: V;
+  config: PaymasterClientConfig;
+  decodePaymasterData: (paymasterData: BytesLike) => D;
+  createUserOperation: (params: SponsoredUserOperationParams) => Promise<UserOperation>;
+  buildUserOperation: (params: BuildUserOperationParams) => Promise<UserOperation>;
+  validateUserOperation: (userOp: UserOperation) => Promise<ValidationIssue[]>;
+  diagnoseUserOperationError: (userOp: UserOperation, error: unknown) => Promise<UserOperationError>;
+};
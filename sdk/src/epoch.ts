@@ -0,0 +1,132 @@
+import { Contract, Provider, Signer } from "ethers";
+import { GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI } from "./abis";
+import { sleep } from "./userOp";
+
+export type EpochState = {
+  epochDuration: bigint;
+  firstEpochTimestamp: bigint;
+  /** Epoch stored in the paymaster, which is what _validatePaymasterUserOp checks the scope against */
+  currentEpoch: bigint;
+  /** Timestamp of the latest block */
+  timestamp: bigint;
+  /** Epoch updateEpoch() would store at the latest block */
+  wallClockEpoch: bigint;
+  /** Number of epochs the stored epoch is behind */
+  drift: bigint;
+};
+
+export type ProofEpoch = {
+  epoch: bigint;
+  stale: boolean;
+  warning?: string;
+};
+
+export type EpochKeeperOptions = {
+  pollingInterval?: number;
+  onUpdate?: (state: EpochState, txHash: string) => void;
+  onError?: (error: unknown) => void;
+};
+
+export type EpochKeeper = {
+  stop: () => Promise<void>;
+};
+
+/**
+ * Same formula as GasLimitedSemaphorePaymaster.updateEpoch().
+ */
+export function computeEpoch(timestamp: bigint, firstEpochTimestamp: bigint, epochDuration: bigint): bigint {
+  if (timestamp < firstEpochTimestamp) {
+    throw new Error(`The first epoch starts at ${firstEpochTimestamp}, after timestamp ${timestamp}`);
+  }
+
+  return (timestamp - firstEpochTimestamp) / epochDuration;
+}
+
+export async function readEpochState(provider: Provider, paymasterAddress: string): Promise<EpochState> {
+  const paymaster = new Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, provider);
+
+  const [epochDuration, firstEpochTimestamp, currentEpoch, block] = await Promise.all([
+    paymaster.epochDuration() as Promise<bigint>,
+    paymaster.firstEpochTimestamp() as Promise<bigint>,
+    paymaster.currentEpoch() as Promise<bigint>,
+    provider.getBlock("latest"),
+  ]);
+
+  if (!block) {
+    throw new Error("Could not get the latest block");
+  }
+
+  const timestamp = BigInt(block.timestamp);
+  const wallClockEpoch = computeEpoch(timestamp, firstEpochTimestamp, epochDuration);
+
+  return {
+    epochDuration,
+    firstEpochTimestamp,
+    currentEpoch,
+    timestamp,
+    wallClockEpoch,
+    drift: wallClockEpoch - currentEpoch,
+  };
+}
+
+/**
+ * Picks the epoch to put in the proof scope. Proofs are checked against the
+ * stored epoch, so that is the one used, with a warning when updateEpoch()
+ * hasn't been called since the wall-clock epoch moved on.
+ */
+export function selectProofEpoch(state: EpochState): ProofEpoch {
+  if (state.drift <= 0n) {
+    return { epoch: state.currentEpoch, stale: false };
+  }
+
+  return {
+    epoch: state.currentEpoch,
+    stale: true,
+    warning:
+      `Stored epoch ${state.currentEpoch} is ${state.drift} behind the wall-clock epoch ${state.wallClockEpoch}. ` +
+      "Call updateEpoch() before generating proofs for the current epoch.",
+  };
+}
+
+/**
+ * Sends updateEpoch() whenever the stored epoch falls behind the wall-clock
+ * epoch, until stopped.
+ */
+export function startEpochKeeper(
+  signer: Signer,
+  paymasterAddress: string,
+  { pollingInterval = 5000, onUpdate, onError }: EpochKeeperOptions = {},
+): EpochKeeper {
+  if (!signer.provider) {
+    throw new Error("Signer is not connected to a provider");
+  }
+
+  const provider = signer.provider;
+  const paymaster = new Contract(paymasterAddress, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, signer);
+  let running = true;
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        const state = await readEpochState(provider, paymasterAddress);
+
+        if (state.drift > 0n) {
+          const tx = await paymaster.updateEpoch();
+          await tx.wait();
+          onUpdate?.(state, tx.hash);
+        }
+      } catch (error) {
+        onError?.(error);
+      }
+
+      await sleep(pollingInterval);
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    },
+  };
+}
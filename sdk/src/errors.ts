@@ -0,0 +1,214 @@
+import { ErrorDescription, Interface, isHexString } from "ethers";
+import { ENTRY_POINT_ABI, PAYMASTER_REVERT_ERRORS_ABI } from "./abis";
+import type { ValidationIssue, ValidationIssueCode } from "./validate";
+
+/**
+ * EntryPoint (v0.7) rejections a sponsored operation can hit because of the
+ * paymaster, plus SIMULATION_FAILED for every other bundler error.
+ * - AA31: the paymaster's EntryPoint deposit is lower than the prefund
+ * - AA33: validatePaymasterUserOp reverted
+ * - AA34: validatePaymasterUserOp returned a failed validation
+ * - AA36: validation used more than paymasterVerificationGasLimit
+ */
+export type UserOperationErrorCode = "AA31" | "AA33" | "AA34" | "AA36" | "SIMULATION_FAILED";
+
+/**
+ * A check behind a rejection: one of the paymaster's own checks, or the
+ * EntryPoint deposit and gas limit checked around it.
+ */
+export type PaymasterCheck = ValidationIssueCode | "PAYMASTER_DEPOSIT" | "PAYMASTER_VERIFICATION_GAS";
+
+/**
+ * The checks each error can come from. The paymasters return a failed
+ * validation for every check they make themselves, so AA34 alone can't tell
+ * them apart; diagnoseUserOperationError narrows it down.
+ */
+export const PAYMASTER_CHECKS: Record<UserOperationErrorCode, PaymasterCheck[]> = {
+  AA31: ["PAYMASTER_DEPOSIT"],
+  AA33: ["MALFORMED_PAYMASTER_DATA", "INVALID_GROUP_ID", "INVALID_SCOPE", "INVALID_PROOF", "STALE_MERKLE_ROOT"],
+  AA34: [
+    "INSUFFICIENT_GROUP_DEPOSIT",
+    "INVALID_MESSAGE",
+    "INVALID_SCOPE",
+    "INVALID_GROUP_ID",
+    "INVALID_PROOF",
+    "STALE_MERKLE_ROOT",
+    "STALE_EPOCH",
+    "INVALID_SENDER",
+    "GAS_LIMIT_EXCEEDED",
+  ],
+  AA36: ["PAYMASTER_VERIFICATION_GAS"],
+  SIMULATION_FAILED: [],
+};
+
+const DESCRIPTIONS: Record<UserOperationErrorCode, string> = {
+  AA31: "the paymaster's EntryPoint deposit does not cover the prefund",
+  AA33: "the paymaster's validation reverted",
+  AA34: "the paymaster rejected the operation",
+  AA36: "paymasterVerificationGasLimit is too low",
+  SIMULATION_FAILED: "the bundler could not simulate the operation",
+};
+
+// Checks identified by the custom error an AA33 reverted with
+const REVERT_CHECKS: Record<string, PaymasterCheck> = {
+  Semaphore__GroupDoesNotExist: "INVALID_GROUP_ID",
+  Semaphore__GroupHasNoMembers: "INVALID_GROUP_ID",
+  Semaphore__MerkleTreeDepthIsNotSupported: "INVALID_PROOF",
+  Semaphore__MerkleTreeRootIsExpired: "STALE_MERKLE_ROOT",
+  Semaphore__MerkleTreeRootIsNotPartOfTheGroup: "INVALID_PROOF",
+  Semaphore__InvalidProof: "INVALID_PROOF",
+  InvalidGroup: "INVALID_GROUP_ID",
+  InvalidProof: "INVALID_PROOF",
+  InvalidProver: "INVALID_SCOPE",
+  UnsuccessfulCheck: "INVALID_PROOF",
+};
+
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+const paymasterInterface = new Interface(PAYMASTER_REVERT_ERRORS_ABI);
+
+/**
+ * A bundler rejection of a user operation, tied back to the checks that can
+ * cause it.
+ */
+export class UserOperationError extends Error {
+  readonly code: UserOperationErrorCode;
+  /** EntryPoint reason, e.g. "AA34 signature error", when the bundler returned one */
+  readonly reason?: string;
+  /** Data the paymaster reverted with (AA33) */
+  readonly revertData?: string;
+  /** Name of the custom error in revertData, when it is a known one */
+  readonly revertName?: string;
+  /** Checks that can cause this error, a single one once it is identified */
+  checks: PaymasterCheck[];
+  /** Failing pre-flight checks, set by diagnoseUserOperationError */
+  issues?: ValidationIssue[];
+  /** The error thrown by the provider */
+  readonly cause?: unknown;
+
+  constructor(
+    code: UserOperationErrorCode,
+    details: { reason?: string; revertData?: string; revertName?: string; cause?: unknown } = {},
+  ) {
+    const reason = details.reason ?? errorMessage(details.cause);
+    super(`User operation rejected (${code}): ${DESCRIPTIONS[code]}${reason ? ` [${reason}]` : ""}`);
+
+    this.name = "UserOperationError";
+    this.code = code;
+    this.reason = details.reason;
+    this.revertData = details.revertData;
+    this.revertName = details.revertName;
+    this.cause = details.cause;
+
+    const revertCheck = details.revertName ? REVERT_CHECKS[details.revertName] : undefined;
+    this.checks = revertCheck ? [revertCheck] : [...PAYMASTER_CHECKS[code]];
+  }
+}
+
+/**
+ * The bundler accepted a user operation but no receipt showed up in time. The
+ * operation may still be included, or may have been dropped from the mempool.
+ */
+export class ReceiptTimeoutError extends Error {
+  readonly userOpHash: string;
+  readonly attempts: number;
+
+  constructor(userOpHash: string, attempts: number) {
+    super(`Could not get receipt after ${attempts} attempts`);
+
+    this.name = "ReceiptTimeoutError";
+    this.userOpHash = userOpHash;
+    this.attempts = attempts;
+  }
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (error === undefined) {
+    return undefined;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Messages and data of the error and everything it wraps. ethers keeps the
+ * JSON-RPC error of the bundler in `error` or `info.error`.
+ */
+function collectRpcError(error: unknown, messages: string[] = [], data: string[] = [], seen = new Set<object>()) {
+  if (typeof error === "string") {
+    messages.push(error);
+  } else if (error && typeof error === "object" && !seen.has(error)) {
+    seen.add(error);
+
+    const { message, shortMessage, data: errorData } = error as Record<string, unknown>;
+
+    for (const value of [shortMessage, message]) {
+      if (typeof value === "string") {
+        messages.push(value);
+      }
+    }
+
+    if (typeof errorData === "string" && isHexString(errorData)) {
+      data.push(errorData);
+    } else if (errorData && typeof errorData === "object") {
+      collectRpcError(errorData, messages, data, seen);
+    }
+
+    for (const nested of ["error", "info", "cause"]) {
+      collectRpcError((error as Record<string, unknown>)[nested], messages, data, seen);
+    }
+  }
+
+  return { messages, data };
+}
+
+function parseRevert(iface: Interface, data: string): ErrorDescription | null {
+  try {
+    return iface.parseError(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turns the error thrown by eth_sendUserOperation or eth_estimateUserOperationGas
+ * into a UserOperationError. The EntryPoint reason is read from FailedOp or
+ * FailedOpWithRevert revert data when the bundler returns it, otherwise from
+ * the AAxx code in the error message.
+ */
+export function parseUserOperationError(error: unknown): UserOperationError {
+  if (error instanceof UserOperationError) {
+    return error;
+  }
+
+  const { messages, data } = collectRpcError(error);
+  let reason: string | undefined;
+  let revertData: string | undefined;
+
+  for (const item of data) {
+    const failedOp = parseRevert(entryPointInterface, item);
+    if (failedOp) {
+      reason = failedOp.args.reason;
+      revertData = failedOp.name === "FailedOpWithRevert" ? failedOp.args.inner : undefined;
+      break;
+    }
+  }
+
+  if (!reason) {
+    for (const message of messages) {
+      const match = /AA\d\d[^"',)\]\n]*/.exec(message);
+      if (match) {
+        reason = match[0].trim();
+        // The inner revert data usually follows the reason
+        revertData = /0x[0-9a-fA-F]{8,}/.exec(message.slice(match.index))?.[0];
+        break;
+      }
+    }
+  }
+
+  const entryPointCode = reason?.slice(0, 4);
+  const code =
+    entryPointCode && entryPointCode in DESCRIPTIONS ? (entryPointCode as UserOperationErrorCode) : "SIMULATION_FAILED";
+  const revertName = revertData ? parseRevert(paymasterInterface, revertData)?.name : undefined;
+
+  return new UserOperationError(code, { reason, revertData, revertName, cause: error });
+}
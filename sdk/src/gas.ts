@@ -0,0 +1,201 @@
+import { BytesLike } from "ethers";
+import { decodeCachedPaymasterData, decodeGasLimitedPaymasterData } from "./paymasterData";
+import type { UserOperationReceipt } from "./receipt";
+import { PaymasterVariant, UserOperation } from "./types";
+
+/**
+ * Gas values as estimated by the bundler (eth_estimateUserOperationGas) and
+ * the provider's fee data, before any margin.
+ */
+export type GasEstimate = {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  /** Only meaningful when the estimated operation had paymaster data */
+  paymasterVerificationGasLimit?: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+export type GasLimits = {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * The limit is the estimate times `multiplier`, or `floor` when that is lower.
+ */
+export type GasMargin = {
+  multiplier: number;
+  floor?: bigint;
+};
+
+/**
+ * The margin added to each estimate when a user operation is created. Every
+ * gas limit counts towards the prefund the group deposit must cover, so
+ * larger margins make the paymaster reject operations the group could pay for.
+ */
+export type GasStrategy = { [K in keyof GasLimits]: GasMargin };
+
+/**
+ * For operations that carry a Semaphore proof the paymaster verifies.
+ * The account-side margins are the ones createUserOperation used to hardcode;
+ * reportGasUsage shows how much of them is used.
+ */
+export const FRESH_PROOF_GAS_STRATEGY: GasStrategy = {
+  callGasLimit: { multiplier: 2 },
+  verificationGasLimit: { multiplier: 20 },
+  preVerificationGas: { multiplier: 2.2, floor: 117144n },
+  paymasterVerificationGasLimit: { multiplier: 2, floor: 1200000n },
+  paymasterPostOpGasLimit: { multiplier: 2, floor: 1200000n },
+  maxFeePerGas: { multiplier: 2 },
+  maxPriorityFeePerGas: { multiplier: 2 },
+};
+
+/**
+ * For the cached form of the Cached and GasLimited paymasters, whose
+ * validation only reads storage instead of verifying a proof.
+ */
+export const CACHED_PROOF_GAS_STRATEGY: GasStrategy = {
+  ...FRESH_PROOF_GAS_STRATEGY,
+  paymasterVerificationGasLimit: { multiplier: 2, floor: 200000n },
+};
+
+export const DEFAULT_GAS_STRATEGY = FRESH_PROOF_GAS_STRATEGY;
+
+/**
+ * Strategies per paymaster, `cached` being used when the paymaster data is in cached form.
+ */
+export const GAS_STRATEGY_PRESETS: Record<PaymasterVariant, { fresh: GasStrategy; cached?: GasStrategy }> = {
+  simple: { fresh: FRESH_PROOF_GAS_STRATEGY },
+  cached: { fresh: FRESH_PROOF_GAS_STRATEGY, cached: CACHED_PROOF_GAS_STRATEGY },
+  gasLimited: { fresh: FRESH_PROOF_GAS_STRATEGY, cached: CACHED_PROOF_GAS_STRATEGY },
+  excubiae: { fresh: FRESH_PROOF_GAS_STRATEGY },
+};
+
+/**
+ * Compares an operation's gas limits with what it used once included.
+ */
+export type GasUsageReport = {
+  /** Sum of the operation's gas limits */
+  gasLimit: bigint;
+  /**
+   * Sum of the bundler's estimates, when the estimate was passed in. postOp
+   * isn't estimated, so the operation's postOp gas limit counts on both sides.
+   */
+  estimatedGas?: bigint;
+  actualGasUsed: bigint;
+  unusedGas: bigint;
+  /** actualGasUsed as a percentage of gasLimit */
+  usedPercent: number;
+  requiredPrefund: bigint;
+  actualGasCost: bigint;
+  /** Prefund the group deposit had to cover on top of what the operation cost */
+  excessPrefund: bigint;
+};
+
+/**
+ * The prefund the EntryPoint (v0.7) requires from the paymaster: every gas
+ * limit of the operation multiplied by maxFeePerGas.
+ */
+export function getRequiredPrefund(op: UserOperation): bigint {
+  const requiredGas =
+    BigInt(op.verificationGasLimit) +
+    BigInt(op.callGasLimit) +
+    BigInt(op.paymasterVerificationGasLimit ?? 0) +
+    BigInt(op.paymasterPostOpGasLimit ?? 0) +
+    BigInt(op.preVerificationGas);
+
+  return requiredGas * BigInt(op.maxFeePerGas);
+}
+
+export function applyGasMargin(value: bigint, { multiplier, floor = 0n }: GasMargin): bigint {
+  // Thousandths keep fractional multipliers exact enough without floats
+  const scaled = (value * BigInt(Math.round(multiplier * 1000))) / 1000n;
+  return scaled > floor ? scaled : floor;
+}
+
+/**
+ * The gas limits of an operation from the bundler's estimate. The postOp gas
+ * limit isn't estimated, the requested one is used as the estimate.
+ */
+export function applyGasStrategy(
+  strategy: GasStrategy,
+  estimate: GasEstimate,
+  paymasterPostOpGasLimit: bigint = 0n,
+): GasLimits {
+  return {
+    callGasLimit: applyGasMargin(estimate.callGasLimit, strategy.callGasLimit),
+    verificationGasLimit: applyGasMargin(estimate.verificationGasLimit, strategy.verificationGasLimit),
+    preVerificationGas: applyGasMargin(estimate.preVerificationGas, strategy.preVerificationGas),
+    paymasterVerificationGasLimit: applyGasMargin(
+      estimate.paymasterVerificationGasLimit ?? 0n,
+      strategy.paymasterVerificationGasLimit,
+    ),
+    paymasterPostOpGasLimit: applyGasMargin(paymasterPostOpGasLimit, strategy.paymasterPostOpGasLimit),
+    maxFeePerGas: applyGasMargin(estimate.maxFeePerGas, strategy.maxFeePerGas),
+    maxPriorityFeePerGas: applyGasMargin(estimate.maxPriorityFeePerGas, strategy.maxPriorityFeePerGas),
+  };
+}
+
+function isCachedForm(variant: PaymasterVariant, paymasterData: BytesLike): boolean {
+  try {
+    switch (variant) {
+      case "cached":
+        return decodeCachedPaymasterData(paymasterData).useCache;
+      case "gasLimited":
+        return decodeGasLimitedPaymasterData(paymasterData).useCache;
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The preset of the paymaster for the form of its paymaster data.
+ */
+export function selectGasStrategy(variant: PaymasterVariant, paymasterData: BytesLike): GasStrategy {
+  const presets = GAS_STRATEGY_PRESETS[variant];
+  return (isCachedForm(variant, paymasterData) && presets.cached) || presets.fresh;
+}
+
+export function reportGasUsage(
+  userOp: UserOperation,
+  receipt: UserOperationReceipt,
+  estimate?: GasEstimate,
+): GasUsageReport {
+  const gasLimit =
+    BigInt(userOp.callGasLimit) +
+    BigInt(userOp.verificationGasLimit) +
+    BigInt(userOp.preVerificationGas) +
+    BigInt(userOp.paymasterVerificationGasLimit ?? 0) +
+    BigInt(userOp.paymasterPostOpGasLimit ?? 0);
+
+  const estimatedGas = estimate
+    ? estimate.callGasLimit +
+      estimate.verificationGasLimit +
+      estimate.preVerificationGas +
+      (estimate.paymasterVerificationGasLimit ?? 0n) +
+      BigInt(userOp.paymasterPostOpGasLimit ?? 0)
+    : undefined;
+
+  const requiredPrefund = getRequiredPrefund(userOp);
+
+  return {
+    gasLimit,
+    estimatedGas,
+    actualGasUsed: receipt.actualGasUsed,
+    unusedGas: gasLimit - receipt.actualGasUsed,
+    usedPercent: gasLimit === 0n ? 0 : Number((receipt.actualGasUsed * 10000n) / gasLimit) / 100,
+    requiredPrefund,
+    actualGasCost: receipt.actualGasCost,
+    excessPrefund: requiredPrefund - receipt.actualGasCost,
+  };
+}
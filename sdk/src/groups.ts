@@ -0,0 +1,196 @@
+import {
+  BigNumberish,
+  Contract,
+  ContractTransactionResponse,
+  Interface,
+  Provider,
+  Signer,
+  toBigInt,
+  TransactionReceipt,
+} from "ethers";
+import { Group } from "@semaphore-protocol/core";
+import { SEMAPHORE_ABI } from "./abis";
+
+export type GroupRootCheck = {
+  groupId: bigint;
+  localRoot: bigint;
+  merkleTreeRoot: bigint;
+  inSync: boolean;
+};
+
+/**
+ * Sends the Semaphore group calls of a paymaster for one group and applies
+ * each change to the local `group` once its transaction is mined.
+ */
+export type GroupAdmin = {
+  paymasterAddress: string;
+  groupId: bigint;
+  group: Group;
+  addMember: (identityCommitment: BigNumberish) => Promise<TransactionReceipt>;
+  /** Adds the commitments with one addMembers transaction per batch */
+  addMembers: (identityCommitments: BigNumberish[], batchSize?: number) => Promise<TransactionReceipt[]>;
+  updateMember: (identityCommitment: BigNumberish, newIdentityCommitment: BigNumberish) => Promise<TransactionReceipt>;
+  removeMember: (identityCommitment: BigNumberish) => Promise<TransactionReceipt>;
+  /** Proposes a new admin, who then has to call acceptGroupAdmin */
+  updateGroupAdmin: (newAdmin: string) => Promise<TransactionReceipt>;
+  checkRoot: () => Promise<GroupRootCheck>;
+  assertInSync: () => Promise<void>;
+};
+
+export const DEFAULT_MEMBERS_BATCH_SIZE = 100;
+
+const semaphoreInterface = new Interface(SEMAPHORE_ABI);
+
+async function waitForReceipt(tx: ContractTransactionResponse): Promise<TransactionReceipt> {
+  const receipt = await tx.wait();
+
+  if (!receipt) {
+    throw new Error(`No receipt for transaction ${tx.hash}`);
+  }
+
+  return receipt;
+}
+
+function indexOfMember(group: Group, identityCommitment: BigNumberish): number {
+  const index = group.indexOf(toBigInt(identityCommitment));
+
+  if (index === -1) {
+    throw new Error(`${identityCommitment} is not a member of the local group`);
+  }
+
+  return index;
+}
+
+/**
+ * Creates a group on the paymaster and returns its ID, read from the
+ * GroupCreated event. The signer is the admin unless another one is given.
+ */
+export async function createGroup(signer: Signer, paymasterAddress: string, admin?: string): Promise<bigint> {
+  const paymaster = new Contract(paymasterAddress, SEMAPHORE_ABI, signer);
+  const tx = admin ? await paymaster["createGroup(address)"](admin) : await paymaster["createGroup()"]();
+  const receipt = await waitForReceipt(tx);
+
+  for (const log of receipt.logs) {
+    const parsed = semaphoreInterface.parseLog(log);
+    if (parsed?.name === "GroupCreated") {
+      return toBigInt(parsed.args.groupId);
+    }
+  }
+
+  throw new Error(`No GroupCreated event in ${receipt.hash}`);
+}
+
+/**
+ * Completes an admin transfer started with updateGroupAdmin. Must be sent by the new admin.
+ */
+export async function acceptGroupAdmin(
+  signer: Signer,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+): Promise<TransactionReceipt> {
+  const paymaster = new Contract(paymasterAddress, SEMAPHORE_ABI, signer);
+  return waitForReceipt(await paymaster.acceptGroupAdmin(groupId));
+}
+
+/**
+ * Compares the root of a local group with getMerkleTreeRoot(groupId).
+ */
+export async function checkGroupRoot(
+  provider: Provider,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  group: Group,
+): Promise<GroupRootCheck> {
+  const paymaster = new Contract(paymasterAddress, SEMAPHORE_ABI, provider);
+  const merkleTreeRoot: bigint = await paymaster.getMerkleTreeRoot(groupId);
+
+  return {
+    groupId: toBigInt(groupId),
+    localRoot: group.root,
+    merkleTreeRoot,
+    inSync: group.root === merkleTreeRoot,
+  };
+}
+
+/**
+ * Throws when the local group is behind the paymaster. A proof generated from
+ * it would be for a root the paymaster doesn't know, or soon won't accept.
+ */
+export async function assertGroupInSync(
+  provider: Provider,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  group: Group,
+): Promise<void> {
+  const check = await checkGroupRoot(provider, paymasterAddress, groupId, group);
+
+  if (!check.inSync) {
+    throw new Error(
+      `Local root ${check.localRoot} of group ${check.groupId} does not match the paymaster root ${check.merkleTreeRoot}`,
+    );
+  }
+}
+
+/**
+ * Group admin for a paymaster inheriting Semaphore. `group` should hold the
+ * current members, since update and removal need their Merkle proofs.
+ */
+export function connectGroupAdmin(
+  signer: Signer,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  group: Group = new Group(),
+): GroupAdmin {
+  if (!signer.provider) {
+    throw new Error("Signer is not connected to a provider");
+  }
+
+  const provider = signer.provider;
+  const paymaster = new Contract(paymasterAddress, SEMAPHORE_ABI, signer);
+  const id = toBigInt(groupId);
+
+  return {
+    paymasterAddress,
+    groupId: id,
+    group,
+    addMember: async (identityCommitment) => {
+      const receipt = await waitForReceipt(await paymaster.addMember(id, identityCommitment));
+      group.addMember(toBigInt(identityCommitment));
+      return receipt;
+    },
+    addMembers: async (identityCommitments, batchSize = DEFAULT_MEMBERS_BATCH_SIZE) => {
+      if (batchSize < 1) {
+        throw new Error("batchSize must be at least 1");
+      }
+
+      const receipts: TransactionReceipt[] = [];
+
+      for (let i = 0; i < identityCommitments.length; i += batchSize) {
+        const batch = identityCommitments.slice(i, i + batchSize).map((commitment) => toBigInt(commitment));
+        receipts.push(await waitForReceipt(await paymaster.addMembers(id, batch)));
+        group.addMembers(batch);
+      }
+
+      return receipts;
+    },
+    updateMember: async (identityCommitment, newIdentityCommitment) => {
+      const index = indexOfMember(group, identityCommitment);
+      const { siblings } = group.generateMerkleProof(index);
+      const receipt = await waitForReceipt(
+        await paymaster.updateMember(id, identityCommitment, newIdentityCommitment, siblings),
+      );
+      group.updateMember(index, toBigInt(newIdentityCommitment));
+      return receipt;
+    },
+    removeMember: async (identityCommitment) => {
+      const index = indexOfMember(group, identityCommitment);
+      const { siblings } = group.generateMerkleProof(index);
+      const receipt = await waitForReceipt(await paymaster.removeMember(id, identityCommitment, siblings));
+      group.removeMember(index);
+      return receipt;
+    },
+    updateGroupAdmin: async (newAdmin) => waitForReceipt(await paymaster.updateGroupAdmin(id, newAdmin)),
+    checkRoot: () => checkGroupRoot(provider, paymasterAddress, id, group),
+    assertInSync: () => assertGroupInSync(provider, paymasterAddress, id, group),
+  };
+}
@@ -0,0 +1,24 @@
+export * from "./types";
+export * from "./abis";
+export * from "./scope";
+export * from "./artifacts";
+export * from "./nullifier";
+export * from "./prover";
+export * from "./paymasterData";
+export * from "./userOp";
+export * from "./signer";
+export * from "./account";
+export * from "./calls";
+export * from "./nonce";
+export * from "./gas";
+export * from "./receipt";
+export * from "./inspect";
+export * from "./validate";
+export * from "./errors";
+export * from "./epoch";
+export * from "./budget";
+export * from "./groups";
+export * from "./indexer";
+export * from "./treasury";
+export * from "./watcher";
+export * from "./clients";
@@ -0,0 +1,339 @@
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { BigNumberish, Interface, Provider, toBigInt } from "ethers";
+import { Group } from "@semaphore-protocol/core";
+import { SEMAPHORE_ABI } from "./abis";
+import { sleep } from "./userOp";
+
+type EventPosition = {
+  groupId: bigint;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+};
+
+export type GroupEvent =
+  | (EventPosition & { type: "GroupCreated" })
+  | (EventPosition & { type: "MemberAdded"; index: bigint; identityCommitment: bigint; merkleTreeRoot: bigint })
+  | (EventPosition & {
+      type: "MembersAdded";
+      startIndex: bigint;
+      identityCommitments: bigint[];
+      merkleTreeRoot: bigint;
+    })
+  | (EventPosition & {
+      type: "MemberUpdated";
+      index: bigint;
+      identityCommitment: bigint;
+      newIdentityCommitment: bigint;
+      merkleTreeRoot: bigint;
+    })
+  | (EventPosition & { type: "MemberRemoved"; index: bigint; identityCommitment: bigint; merkleTreeRoot: bigint });
+
+export type GroupEventType = GroupEvent["type"];
+
+/**
+ * Everything the indexer has seen for one paymaster.
+ */
+export type IndexerState = {
+  paymasterAddress: string;
+  /** Last block whose events are in `events`, -1 before the first sync */
+  lastIndexedBlock: number;
+  events: GroupEvent[];
+};
+
+export type GroupEventStore = {
+  load: () => Promise<IndexerState | undefined>;
+  save: (state: IndexerState) => Promise<void>;
+};
+
+export type SyncOptions = {
+  /** Block to start from on the first sync */
+  fromBlock?: number;
+  toBlock?: number;
+  /** Blocks per eth_getLogs request */
+  blockRange?: number;
+};
+
+export type SyncResult = {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: GroupEvent[];
+  state: IndexerState;
+};
+
+export type GroupIndexerOptions = SyncOptions & {
+  pollingInterval?: number;
+  onSync?: (result: SyncResult) => void;
+  onError?: (error: unknown) => void;
+};
+
+export type GroupIndexer = {
+  stop: () => Promise<void>;
+};
+
+export const GROUP_EVENT_TYPES: GroupEventType[] = [
+  "GroupCreated",
+  "MemberAdded",
+  "MembersAdded",
+  "MemberUpdated",
+  "MemberRemoved",
+];
+
+const semaphoreInterface = new Interface(SEMAPHORE_ABI);
+
+const BIGINT_FIELDS = new Set([
+  "groupId",
+  "index",
+  "startIndex",
+  "identityCommitment",
+  "newIdentityCommitment",
+  "merkleTreeRoot",
+  "identityCommitments",
+]);
+
+function compareEvents(a: GroupEvent, b: GroupEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * Keeps the state in memory, for tests and one-off scripts.
+ */
+export function createMemoryStore(): GroupEventStore {
+  let saved: string | undefined;
+
+  return {
+    load: async () => (saved ? deserializeIndexerState(saved) : undefined),
+    save: async (state) => {
+      saved = serializeIndexerState(state);
+    },
+  };
+}
+
+/**
+ * Keeps the state in a JSON file, rewritten after every sync.
+ */
+export function createJsonFileStore(path: string): GroupEventStore {
+  return {
+    load: async () => (existsSync(path) ? deserializeIndexerState(await readFile(path, "utf8")) : undefined),
+    save: (state) => writeFile(path, serializeIndexerState(state)),
+  };
+}
+
+export function serializeIndexerState(state: IndexerState): string {
+  return JSON.stringify(state, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+export function deserializeIndexerState(json: string): IndexerState {
+  return JSON.parse(json, (key, v) => {
+    if (!BIGINT_FIELDS.has(key)) {
+      return v;
+    }
+
+    return Array.isArray(v) ? v.map((item) => BigInt(item)) : BigInt(v);
+  });
+}
+
+/**
+ * Semaphore group events emitted by the paymaster between two blocks, in chain order.
+ */
+export async function fetchGroupEvents(
+  provider: Provider,
+  paymasterAddress: string,
+  fromBlock: number,
+  toBlock: number,
+): Promise<GroupEvent[]> {
+  const topics = GROUP_EVENT_TYPES.map((type) => semaphoreInterface.getEvent(type)!.topicHash);
+  const logs = await provider.getLogs({ address: paymasterAddress, fromBlock, toBlock, topics: [topics] });
+  const events: GroupEvent[] = [];
+
+  for (const log of logs) {
+    const parsed = semaphoreInterface.parseLog(log);
+    if (!parsed) {
+      continue;
+    }
+
+    const position = {
+      groupId: toBigInt(parsed.args.groupId),
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+    };
+    const { args } = parsed;
+
+    switch (parsed.name as GroupEventType) {
+      case "GroupCreated":
+        events.push({ ...position, type: "GroupCreated" });
+        break;
+      case "MemberAdded":
+        events.push({
+          ...position,
+          type: "MemberAdded",
+          index: args.index,
+          identityCommitment: args.identityCommitment,
+          merkleTreeRoot: args.merkleTreeRoot,
+        });
+        break;
+      case "MembersAdded":
+        events.push({
+          ...position,
+          type: "MembersAdded",
+          startIndex: args.startIndex,
+          identityCommitments: args.identityCommitments.toArray(),
+          merkleTreeRoot: args.merkleTreeRoot,
+        });
+        break;
+      case "MemberUpdated":
+        events.push({
+          ...position,
+          type: "MemberUpdated",
+          index: args.index,
+          identityCommitment: args.identityCommitment,
+          newIdentityCommitment: args.newIdentityCommitment,
+          merkleTreeRoot: args.merkleTreeRoot,
+        });
+        break;
+      case "MemberRemoved":
+        events.push({
+          ...position,
+          type: "MemberRemoved",
+          index: args.index,
+          identityCommitment: args.identityCommitment,
+          merkleTreeRoot: args.merkleTreeRoot,
+        });
+        break;
+    }
+  }
+
+  return events.sort(compareEvents);
+}
+
+/**
+ * Fetches the events after the last indexed block and saves them. The first
+ * sync starts at `fromBlock`, later ones continue where the store left off.
+ */
+export async function syncGroupEvents(
+  provider: Provider,
+  paymasterAddress: string,
+  store: GroupEventStore,
+  { fromBlock = 0, toBlock, blockRange = 5000 }: SyncOptions = {},
+): Promise<SyncResult> {
+  const state = (await store.load()) ?? { paymasterAddress, lastIndexedBlock: fromBlock - 1, events: [] };
+
+  if (state.paymasterAddress.toLowerCase() !== paymasterAddress.toLowerCase()) {
+    throw new Error(`Store holds the events of ${state.paymasterAddress}, not ${paymasterAddress}`);
+  }
+
+  const start = state.lastIndexedBlock + 1;
+  const end = toBlock ?? (await provider.getBlockNumber());
+  const newEvents: GroupEvent[] = [];
+
+  for (let from = start; from <= end; from += blockRange) {
+    const to = Math.min(from + blockRange - 1, end);
+    newEvents.push(...(await fetchGroupEvents(provider, paymasterAddress, from, to)));
+  }
+
+  if (end >= start) {
+    state.events.push(...newEvents);
+    state.lastIndexedBlock = end;
+    await store.save(state);
+  }
+
+  return { fromBlock: start, toBlock: end, newEvents, state };
+}
+
+/**
+ * Group IDs created in the indexed events.
+ */
+export function listIndexedGroups(events: GroupEvent[]): bigint[] {
+  return events.filter((event) => event.type === "GroupCreated").map((event) => event.groupId);
+}
+
+function assertNextIndex(group: Group, groupId: bigint, index: bigint) {
+  if (index !== BigInt(group.size)) {
+    throw new Error(`Group ${groupId} has ${group.size} members, but the next one was added at index ${index}`);
+  }
+}
+
+function assertMemberIndexed(group: Group, groupId: bigint, index: bigint) {
+  if (index >= BigInt(group.size)) {
+    throw new Error(`Group ${groupId} is missing members up to index ${index}`);
+  }
+}
+
+/**
+ * Replays the events of a group up to and including `blockNumber` (default:
+ * all of them). Each change is checked against the root the contract emitted,
+ * so a gap in the events is reported instead of producing a wrong group.
+ */
+export function buildGroup(events: GroupEvent[], groupId: BigNumberish, blockNumber?: number): Group {
+  const id = toBigInt(groupId);
+  const group = new Group();
+
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.groupId !== id || (blockNumber !== undefined && event.blockNumber > blockNumber)) {
+      continue;
+    }
+
+    switch (event.type) {
+      case "GroupCreated":
+        continue;
+      case "MemberAdded":
+        assertNextIndex(group, id, event.index);
+        group.addMember(event.identityCommitment);
+        break;
+      case "MembersAdded":
+        assertNextIndex(group, id, event.startIndex);
+        group.addMembers(event.identityCommitments);
+        break;
+      case "MemberUpdated":
+        assertMemberIndexed(group, id, event.index);
+        group.updateMember(Number(event.index), event.newIdentityCommitment);
+        break;
+      case "MemberRemoved":
+        assertMemberIndexed(group, id, event.index);
+        group.removeMember(Number(event.index));
+        break;
+    }
+
+    if (group.root !== event.merkleTreeRoot) {
+      throw new Error(
+        `Root of group ${id} is ${group.root} after the ${event.type} event in block ${event.blockNumber}, ` +
+          `but the contract emitted ${event.merkleTreeRoot}`,
+      );
+    }
+  }
+
+  return group;
+}
+
+/**
+ * Syncs the store every pollingInterval ms until stopped.
+ */
+export function startGroupIndexer(
+  provider: Provider,
+  paymasterAddress: string,
+  store: GroupEventStore,
+  { pollingInterval = 5000, onSync, onError, ...syncOptions }: GroupIndexerOptions = {},
+): GroupIndexer {
+  let running = true;
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        onSync?.(await syncGroupEvents(provider, paymasterAddress, store, syncOptions));
+      } catch (error) {
+        onError?.(error);
+      }
+
+      await sleep(pollingInterval);
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    },
+  };
+}
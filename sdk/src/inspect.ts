@@ -0,0 +1,182 @@
+import { BytesLike, dataLength, dataSlice, getAddress, getBytes, hexlify, toBigInt } from "ethers";
+import {
+  decodeCachedPaymasterData,
+  decodeExcubiaePaymasterData,
+  decodeGasLimitedPaymasterData,
+  decodeSimplePaymasterData,
+} from "./paymasterData";
+import { packPaymasterData } from "./userOp";
+import { DecodedSemaphoreProof, PackedUserOperation, UserOperation } from "./types";
+
+/**
+ * Offset of the paymaster data inside paymasterAndData: 20 bytes of paymaster
+ * address followed by the two 16-byte gas limits.
+ */
+export const PAYMASTER_DATA_OFFSET = 52;
+
+const PROOF_LENGTH = 13 * 32;
+
+/**
+ * The paymaster data layouts used by the contracts:
+ * - proofTuple: abi.encode(PaymasterData) with an inline SemaphoreProof (SimpleSemaphorePaymaster)
+ * - evidenceBytes: abi.encode(PaymasterData) with the proof as bytes (ExcubiaePaymaster)
+ * - cacheFlag: a 0x00/0x01 flag byte followed by the group ID (CachedSemaphorePaymaster, GasLimitedSemaphorePaymaster)
+ */
+export type PaymasterDataLayout = "proofTuple" | "evidenceBytes" | "cacheFlag";
+
+export type PaymasterContractName =
+  | "SimpleSemaphorePaymaster"
+  | "CachedSemaphorePaymaster"
+  | "GasLimitedSemaphorePaymaster"
+  | "ExcubiaeSemaphorePaymaster";
+
+export type UnpackedPaymasterAndData = {
+  paymaster: string;
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+  paymasterData: string;
+};
+
+export type PaymasterAndDataInspection = UnpackedPaymasterAndData & {
+  layout: PaymasterDataLayout;
+  contracts: PaymasterContractName[];
+  groupId: bigint;
+  useCache?: boolean;
+  nullifier?: bigint;
+  proof?: DecodedSemaphoreProof;
+  evidence?: string;
+};
+
+/**
+ * The reverse of packPaymasterData.
+ */
+export function unpackPaymasterAndData(paymasterAndData: BytesLike): UnpackedPaymasterAndData {
+  if (dataLength(paymasterAndData) < PAYMASTER_DATA_OFFSET) {
+    throw new Error(`paymasterAndData is shorter than ${PAYMASTER_DATA_OFFSET} bytes`);
+  }
+
+  return {
+    paymaster: getAddress(dataSlice(paymasterAndData, 0, 20)),
+    paymasterVerificationGasLimit: toBigInt(dataSlice(paymasterAndData, 20, 36)),
+    paymasterPostOpGasLimit: toBigInt(dataSlice(paymasterAndData, 36, PAYMASTER_DATA_OFFSET)),
+    paymasterData: dataSlice(paymasterAndData, PAYMASTER_DATA_OFFSET),
+  };
+}
+
+/**
+ * The reverse of packUserOp.
+ */
+export function unpackUserOp(op: PackedUserOperation): UserOperation {
+  const accountGasLimits = toBigInt(op.accountGasLimits);
+  const gasFees = toBigInt(op.gasFees);
+  const low128 = (1n << 128n) - 1n;
+  const userOp: UserOperation = {
+    sender: op.sender,
+    nonce: toBigInt(op.nonce),
+    callData: hexlify(op.callData),
+    verificationGasLimit: accountGasLimits >> 128n,
+    callGasLimit: accountGasLimits & low128,
+    preVerificationGas: toBigInt(op.preVerificationGas),
+    maxPriorityFeePerGas: gasFees >> 128n,
+    maxFeePerGas: gasFees & low128,
+    signature: hexlify(op.signature),
+  };
+
+  if (dataLength(op.initCode) > 0) {
+    userOp.factory = getAddress(dataSlice(op.initCode, 0, 20));
+    userOp.factoryData = dataSlice(op.initCode, 20);
+  }
+
+  if (dataLength(op.paymasterAndData) > 0) {
+    const { paymaster, paymasterVerificationGasLimit, paymasterPostOpGasLimit, paymasterData } = unpackPaymasterAndData(
+      op.paymasterAndData,
+    );
+    Object.assign(userOp, { paymaster, paymasterVerificationGasLimit, paymasterPostOpGasLimit, paymasterData });
+  }
+
+  return userOp;
+}
+
+/**
+ * Splits paymasterAndData into its fields and decodes the paymaster data
+ * with whichever contract layout it matches.
+ */
+export function inspectPaymasterAndData(paymasterAndData: BytesLike): PaymasterAndDataInspection {
+  const unpacked = unpackPaymasterAndData(paymasterAndData);
+  const data = unpacked.paymasterData;
+  const length = dataLength(data);
+  const flag = length > 0 ? getBytes(data)[0] : undefined;
+
+  if (flag === 1 && length === 33) {
+    return {
+      ...unpacked,
+      layout: "cacheFlag",
+      contracts: ["CachedSemaphorePaymaster"],
+      ...decodeCachedPaymasterData(data),
+    };
+  }
+
+  if (flag === 1 && length === 65) {
+    return {
+      ...unpacked,
+      layout: "cacheFlag",
+      contracts: ["GasLimitedSemaphorePaymaster"],
+      ...decodeGasLimitedPaymasterData(data),
+    };
+  }
+
+  if (flag === 0 && length === 33 + PROOF_LENGTH) {
+    // The fresh proof form is shared by both contracts
+    return {
+      ...unpacked,
+      layout: "cacheFlag",
+      contracts: ["CachedSemaphorePaymaster", "GasLimitedSemaphorePaymaster"],
+      ...decodeGasLimitedPaymasterData(data),
+    };
+  }
+
+  if (length === 32 + PROOF_LENGTH) {
+    return {
+      ...unpacked,
+      layout: "proofTuple",
+      contracts: ["SimpleSemaphorePaymaster"],
+      ...decodeSimplePaymasterData(data),
+    };
+  }
+
+  if (length === 4 * 32 + PROOF_LENGTH && toBigInt(dataSlice(data, 0, 32)) === 32n) {
+    return {
+      ...unpacked,
+      layout: "evidenceBytes",
+      contracts: ["ExcubiaeSemaphorePaymaster"],
+      ...decodeExcubiaePaymasterData(data),
+    };
+  }
+
+  throw new Error(`Paymaster data of ${length} bytes does not match any known paymaster layout`);
+}
+
+/**
+ * Inspects the paymaster fields of a user operation in either its packed
+ * (paymasterAndData) or unpacked (paymaster, gas limits, paymasterData) form.
+ */
+export function inspectUserOperation(
+  userOp: Partial<UserOperation> | Partial<PackedUserOperation>,
+): PaymasterAndDataInspection {
+  if ("paymasterAndData" in userOp && userOp.paymasterAndData) {
+    return inspectPaymasterAndData(hexlify(userOp.paymasterAndData));
+  }
+
+  if ("paymaster" in userOp && userOp.paymaster) {
+    return inspectPaymasterAndData(
+      packPaymasterData(
+        userOp.paymaster,
+        userOp.paymasterVerificationGasLimit ?? 0,
+        userOp.paymasterPostOpGasLimit ?? 0,
+        userOp.paymasterData,
+      ),
+    );
+  }
+
+  throw new Error("User operation has no paymaster");
+}
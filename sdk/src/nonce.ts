@@ -0,0 +1,136 @@
+import { BigNumberish, Contract, Provider, toBigInt } from "ethers";
+import { ENTRY_POINT_ABI } from "./abis";
+
+/**
+ * An EntryPoint nonce split into its 192-bit key and 64-bit sequence. Each
+ * key has its own sequence, so operations on different keys don't wait on
+ * each other.
+ */
+export type DecodedNonce = {
+  key: bigint;
+  sequence: bigint;
+};
+
+/**
+ * Hands out nonces for operations that are built before the earlier ones are
+ * included. Nonces of one key must be included in order, so operations meant
+ * to land independently should take different keys.
+ */
+export type NonceManager = {
+  /** The next nonce of the key, or of the lowest key with no operation in flight */
+  acquire: (sender: string, key?: BigNumberish) => Promise<bigint>;
+  /** Marks the operation as done. A dropped one gives its nonce back when it was the last handed out */
+  release: (sender: string, nonce: BigNumberish, included?: boolean) => void;
+  /** Keys of the sender with operations in flight */
+  inFlightKeys: (sender: string) => bigint[];
+};
+
+const SEQUENCE_BITS = 64n;
+const MAX_KEY = (1n << 192n) - 1n;
+const MAX_SEQUENCE = (1n << SEQUENCE_BITS) - 1n;
+
+export function encodeNonce(key: BigNumberish, sequence: BigNumberish): bigint {
+  const keyValue = toBigInt(key);
+  const sequenceValue = toBigInt(sequence);
+
+  if (keyValue < 0n || keyValue > MAX_KEY) {
+    throw new Error(`Nonce key ${keyValue} does not fit in 192 bits`);
+  }
+  if (sequenceValue < 0n || sequenceValue > MAX_SEQUENCE) {
+    throw new Error(`Nonce sequence ${sequenceValue} does not fit in 64 bits`);
+  }
+
+  return (keyValue << SEQUENCE_BITS) | sequenceValue;
+}
+
+export function decodeNonce(nonce: BigNumberish): DecodedNonce {
+  const value = toBigInt(nonce);
+  return { key: value >> SEQUENCE_BITS, sequence: value & MAX_SEQUENCE };
+}
+
+/**
+ * The EntryPoint's next nonce for the sender on the key, key included.
+ */
+export async function getNonce(
+  provider: Provider,
+  entryPointAddress: string,
+  sender: string,
+  key: BigNumberish = 0n,
+): Promise<bigint> {
+  const entryPoint = new Contract(entryPointAddress, ENTRY_POINT_ABI, provider);
+  return entryPoint.getNonce(sender, key);
+}
+
+type KeyState = {
+  next: Promise<bigint>;
+  inFlight: number;
+};
+
+/**
+ * Nonce manager keeping the nonces it handed out in memory. A key is read
+ * from the EntryPoint when first used and again once none of its operations
+ * is in flight, so nonces used elsewhere are picked up.
+ */
+export function createNonceManager(provider: Provider, entryPointAddress: string): NonceManager {
+  const states = new Map<string, KeyState>();
+  const stateId = (sender: string, key: bigint) => `${sender.toLowerCase()}:${key}`;
+
+  function freeKey(sender: string): bigint {
+    let key = 0n;
+    while (states.get(stateId(sender, key))?.inFlight) {
+      key++;
+    }
+    return key;
+  }
+
+  return {
+    acquire: async (sender, key) => {
+      const nonceKey = key === undefined ? freeKey(sender) : toBigInt(key);
+      const id = stateId(sender, nonceKey);
+
+      // The state is updated before awaiting, so concurrent calls see each other's nonces
+      let state = states.get(id);
+      if (!state) {
+        state = { next: getNonce(provider, entryPointAddress, sender, nonceKey), inFlight: 0 };
+        states.set(id, state);
+      }
+
+      const nonce = state.next;
+      state.next = nonce.then((value) => value + 1n);
+      state.inFlight++;
+
+      // A failed read is thrown to this caller below, not to whoever acquires next
+      state.next.catch(() => undefined);
+
+      return nonce.catch((error) => {
+        states.delete(id);
+        throw error;
+      });
+    },
+    release: (sender, nonce, included = true) => {
+      const { key } = decodeNonce(nonce);
+      const id = stateId(sender, key);
+      const state = states.get(id);
+      if (!state) {
+        return;
+      }
+
+      state.inFlight--;
+      if (state.inFlight <= 0) {
+        states.delete(id);
+        return;
+      }
+
+      if (!included) {
+        const released = toBigInt(nonce);
+        state.next = state.next.then((next) => (next === released + 1n ? released : next));
+      }
+    },
+    inFlightKeys: (sender) => {
+      const prefix = `${sender.toLowerCase()}:`;
+      return [...states.entries()]
+        .filter(([id, state]) => id.startsWith(prefix) && state.inFlight > 0)
+        .map(([id]) => BigInt(id.slice(prefix.length)));
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { BigNumberish, keccak256, toBeHex, toBigInt } from "ethers";
+import { Identity } from "@semaphore-protocol/core";
+import { poseidon2 } from "poseidon-lite/poseidon2";
+
+/**
+ * Scope as the Semaphore circuit takes it: keccak256 of the 32-byte value,
+ * shifted right by 8 bits to fit in the SNARK scalar field.
+ */
+export function hashScope(scope: BigNumberish): bigint {
+  return toBigInt(keccak256(toBeHex(scope, 32))) >> 8n;
+}
+
+/**
+ * Nullifier the identity's proofs carry in the scope, computed the way the
+ * circuit does, Poseidon(hash(scope), secretScalar), so no proof is needed.
+ */
+export function deriveNullifier(identity: Identity, scope: BigNumberish): bigint {
+  return poseidon2([hashScope(scope), identity.secretScalar]);
+}
@@ -0,0 +1,294 @@
+import {
+  AbiCoder,
+  BigNumberish,
+  BytesLike,
+  concat,
+  dataSlice,
+  getBytes,
+  keccak256,
+  Result,
+  toBigInt,
+  toUtf8Bytes,
+} from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import { generateSemaphoreProof } from "./artifacts";
+import { deriveNullifier } from "./nullifier";
+import { ProofGenerator } from "./prover";
+import { DecodedSemaphoreProof, PaymasterVariant, SemaphoreProofStruct } from "./types";
+import { generateGasLimitedScope, generatePaymasterScope } from "./scope";
+
+export const SEMAPHORE_PROOF_TUPLE =
+  "tuple(uint256 merkleTreeDepth, uint256 merkleTreeRoot, uint256 nullifier, uint256 message, uint256 scope, uint256[8] points)";
+
+export const SIMPLE_PAYMASTER_DATA_TUPLE = `tuple(uint256 groupId, ${SEMAPHORE_PROOF_TUPLE} proof)`;
+
+export const EXCUBIAE_PAYMASTER_DATA_TUPLE = "tuple(uint256 groupId, bytes proof)";
+
+export const NEW_PROOF_FLAG = "0x00";
+export const CACHED_PROOF_FLAG = "0x01";
+
+export type SimplePaymasterData = {
+  groupId: bigint;
+  proof: DecodedSemaphoreProof;
+};
+
+export type CachedPaymasterData = {
+  useCache: boolean;
+  groupId: bigint;
+  proof?: DecodedSemaphoreProof;
+};
+
+export type GasLimitedPaymasterData = {
+  useCache: boolean;
+  groupId: bigint;
+  nullifier: bigint;
+  proof?: DecodedSemaphoreProof;
+};
+
+export type ExcubiaePaymasterData = {
+  groupId: bigint;
+  evidence: string;
+  proof: DecodedSemaphoreProof;
+};
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+function toDecodedProof(result: Result): DecodedSemaphoreProof {
+  return {
+    merkleTreeDepth: toBigInt(result.merkleTreeDepth),
+    merkleTreeRoot: toBigInt(result.merkleTreeRoot),
+    nullifier: toBigInt(result.nullifier),
+    message: toBigInt(result.message),
+    scope: toBigInt(result.scope),
+    points: Array.from(result.points as bigint[], (point) => toBigInt(point)),
+  };
+}
+
+function readFlag(paymasterData: BytesLike): boolean {
+  const flag = getBytes(paymasterData)[0];
+  if (flag !== 0 && flag !== 1) {
+    throw new Error(`Unknown cache flag 0x${flag?.toString(16).padStart(2, "0")}`);
+  }
+  return flag === 1;
+}
+
+export function encodeSemaphoreProof(proof: SemaphoreProofStruct): string {
+  return abiCoder.encode([SEMAPHORE_PROOF_TUPLE], [proof]);
+}
+
+export function decodeSemaphoreProof(data: BytesLike): DecodedSemaphoreProof {
+  return toDecodedProof(abiCoder.decode([SEMAPHORE_PROOF_TUPLE], data)[0]);
+}
+
+/**
+ * Paymaster data for SimpleSemaphorePaymaster: abi.encode(PaymasterData).
+ */
+export function encodeSimplePaymasterData(groupId: BigNumberish, proof: SemaphoreProofStruct): string {
+  return abiCoder.encode([SIMPLE_PAYMASTER_DATA_TUPLE], [{ groupId, proof }]);
+}
+
+export function decodeSimplePaymasterData(paymasterData: BytesLike): SimplePaymasterData {
+  const [data] = abiCoder.decode([SIMPLE_PAYMASTER_DATA_TUPLE], paymasterData);
+  return { groupId: toBigInt(data.groupId), proof: toDecodedProof(data.proof) };
+}
+
+/**
+ * Paymaster data for CachedSemaphorePaymaster. Without a proof the cached
+ * form (flag 0x01 and group ID) is produced.
+ */
+export function encodeCachedPaymasterData(groupId: BigNumberish, proof?: SemaphoreProofStruct): string {
+  if (!proof) {
+    return concat([CACHED_PROOF_FLAG, abiCoder.encode(["uint256"], [groupId])]);
+  }
+
+  return concat([NEW_PROOF_FLAG, abiCoder.encode(["uint256"], [groupId]), encodeSemaphoreProof(proof)]);
+}
+
+export function decodeCachedPaymasterData(paymasterData: BytesLike): CachedPaymasterData {
+  const useCache = readFlag(paymasterData);
+  const groupId = toBigInt(dataSlice(paymasterData, 1, 33));
+
+  if (useCache) {
+    return { useCache, groupId };
+  }
+
+  return { useCache, groupId, proof: decodeSemaphoreProof(dataSlice(paymasterData, 33)) };
+}
+
+/**
+ * Paymaster data for GasLimitedSemaphorePaymaster. The cached form carries
+ * the nullifier whose gas data was recorded by an earlier fresh proof, and is
+ * only accepted from the sender that proof was verified for.
+ */
+export function encodeGasLimitedPaymasterData(
+  groupId: BigNumberish,
+  proofOrNullifier: SemaphoreProofStruct | BigNumberish,
+): string {
+  if (typeof proofOrNullifier !== "object") {
+    return concat([
+      CACHED_PROOF_FLAG,
+      abiCoder.encode(["uint256"], [groupId]),
+      abiCoder.encode(["uint256"], [proofOrNullifier]),
+    ]);
+  }
+
+  return concat([NEW_PROOF_FLAG, abiCoder.encode(["uint256"], [groupId]), encodeSemaphoreProof(proofOrNullifier)]);
+}
+
+export function decodeGasLimitedPaymasterData(paymasterData: BytesLike): GasLimitedPaymasterData {
+  const useCache = readFlag(paymasterData);
+  const groupId = toBigInt(dataSlice(paymasterData, 1, 33));
+
+  if (useCache) {
+    return { useCache, groupId, nullifier: toBigInt(dataSlice(paymasterData, 33, 65)) };
+  }
+
+  const proof = decodeSemaphoreProof(dataSlice(paymasterData, 33));
+  return { useCache, groupId, nullifier: proof.nullifier, proof };
+}
+
+/**
+ * Evidence accepted by the Excubiae SemaphorePolicy: the ABI-encoded SemaphoreProof.
+ */
+export function encodeExcubiaeEvidence(proof: SemaphoreProofStruct): string {
+  return encodeSemaphoreProof(proof);
+}
+
+/**
+ * Paymaster data for ExcubiaeSemaphorePaymaster: abi.encode(PaymasterData) with the evidence as bytes.
+ */
+export function encodeExcubiaePaymasterData(groupId: BigNumberish, evidence: BytesLike): string {
+  return abiCoder.encode([EXCUBIAE_PAYMASTER_DATA_TUPLE], [{ groupId, proof: evidence }]);
+}
+
+export function decodeExcubiaePaymasterData(paymasterData: BytesLike): ExcubiaePaymasterData {
+  const [data] = abiCoder.decode([EXCUBIAE_PAYMASTER_DATA_TUPLE], paymasterData);
+  return { groupId: toBigInt(data.groupId), evidence: data.proof, proof: decodeSemaphoreProof(data.proof) };
+}
+
+// Fields of a proof have to be below the BN254 scalar field for the verifier to check them
+const SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// Full-width stand-in for the nullifier and root, so the placeholder costs the same calldata gas
+const DUMMY_FIELD_ELEMENT = toBigInt(keccak256(toUtf8Bytes("semaphore-paymaster.dummy-proof"))) % SNARK_SCALAR_FIELD;
+
+/**
+ * 2·G1 for A and C and the G2 generator for B, in the order Semaphore packs
+ * them. They are valid curve points, so the verifier runs the pairing like for
+ * a real proof, and fails it.
+ */
+const DUMMY_PROOF_POINTS = [
+  1368015179489954701390400359078579693043519447331113978918064868415326638035n,
+  9918110051302171585080402603319702774565515993150576347155970296011118125764n,
+  11559732032986387107991004021392285783925812861821192530917403151452391805634n,
+  10857046999023057135944570762232829481370756359578518086990519993285655852781n,
+  4082367875863433681332203403145435568316851327593401208105741076214120093531n,
+  8495653923123431417604973247489272438418190587263600148770280649306958101930n,
+  1368015179489954701390400359078579693043519447331113978918064868415326638035n,
+  9918110051302171585080402603319702774565515993150576347155970296011118125764n,
+];
+
+export type DummyPaymasterDataParams = {
+  groupId: BigNumberish;
+  /** Cached form of the Cached and GasLimited layouts */
+  useCache?: boolean;
+  /** Known fields of the real proof (message, root, scope, nullifier), placeholders otherwise */
+  proof?: Partial<SemaphoreProofStruct>;
+};
+
+/**
+ * A proof of the same size as a real one that the verifier rejects without reverting.
+ */
+export function createDummyProof(fields: Partial<SemaphoreProofStruct> = {}): SemaphoreProofStruct {
+  return {
+    merkleTreeDepth: 32n,
+    merkleTreeRoot: DUMMY_FIELD_ELEMENT,
+    nullifier: DUMMY_FIELD_ELEMENT,
+    message: DUMMY_FIELD_ELEMENT,
+    scope: DUMMY_FIELD_ELEMENT,
+    points: DUMMY_PROOF_POINTS,
+    ...fields,
+  };
+}
+
+/**
+ * Placeholder paymaster data in the variant's layout, for estimating gas
+ * before the real proof exists: same length as the real data, and with the
+ * known proof fields passed in, the paymaster runs the same checks.
+ */
+export function createDummyPaymasterData(variant: PaymasterVariant, params: DummyPaymasterDataParams): string {
+  const proof = createDummyProof(params.proof);
+
+  switch (variant) {
+    case "simple":
+      return encodeSimplePaymasterData(params.groupId, proof);
+    case "cached":
+      return encodeCachedPaymasterData(params.groupId, params.useCache ? undefined : proof);
+    case "gasLimited":
+      return encodeGasLimitedPaymasterData(params.groupId, params.useCache ? proof.nullifier : proof);
+    case "excubiae":
+      return encodeExcubiaePaymasterData(params.groupId, encodeExcubiaeEvidence(proof));
+  }
+}
+
+export async function generatePaymasterData(
+  id: Identity,
+  group: Group,
+  message: bigint,
+  groupId: number,
+  chainId: BigNumberish,
+  paymasterAddress: string,
+  generateProof: ProofGenerator = generateSemaphoreProof,
+) {
+  const proof = await generateProof(id, group, message, generatePaymasterScope(chainId, paymasterAddress, groupId));
+  return encodeSimplePaymasterData(groupId, proof);
+}
+
+export async function generateCachedPaymasterData(
+  id: Identity,
+  group: Group,
+  message: bigint,
+  groupId: number,
+  chainId: BigNumberish,
+  paymasterAddress: string,
+  useCache: boolean = false,
+  generateProof: ProofGenerator = generateSemaphoreProof,
+) {
+  if (useCache) {
+    return encodeCachedPaymasterData(groupId);
+  }
+
+  const proof = await generateProof(id, group, message, generatePaymasterScope(chainId, paymasterAddress, groupId));
+  return encodeCachedPaymasterData(groupId, proof);
+}
+
+export async function generateGasLimitedPaymasterData(
+  id: Identity,
+  group: Group,
+  message: bigint,
+  groupId: number,
+  epoch: BigNumberish,
+  chainId: BigNumberish,
+  paymasterAddress: string,
+  useCache: boolean = false,
+  generateProof: ProofGenerator = generateSemaphoreProof,
+): Promise<{ paymasterData: string; nullifier: string }> {
+  const scope = generateGasLimitedScope(chainId, paymasterAddress, groupId, epoch);
+
+  // The cached form only carries the nullifier, which is derived without a proof
+  if (useCache) {
+    const nullifier = deriveNullifier(id, scope).toString();
+    return { paymasterData: encodeGasLimitedPaymasterData(groupId, nullifier), nullifier };
+  }
+
+  const proof = await generateProof(id, group, message, scope);
+
+  return {
+    paymasterData: encodeGasLimitedPaymasterData(groupId, proof),
+    nullifier: proof.nullifier,
+  };
+}
+
+export async function generateExcubiaePaymasterData(groupId: number, evidence: string) {
+  return encodeExcubiaePaymasterData(groupId, evidence);
+}
@@ -0,0 +1,32 @@
+/// <reference path="./ffjavascript.d.ts" />
+import { parentPort, workerData } from "worker_threads";
+import { Group, Identity } from "@semaphore-protocol/core";
+import { buildBn128 } from "ffjavascript";
+import { createArtifactStore } from "./artifacts";
+import { createLocalProofGenerator, ProofJob, ProofJobResult, ProofWorkerData } from "./prover";
+
+/**
+ * Worker thread of createProofPool: generates the proof of each job it is
+ * sent and posts it back, or the error that failed it.
+ */
+const { artifacts } = workerData as ProofWorkerData;
+const generate = createLocalProofGenerator(artifacts && createArtifactStore(artifacts.directory, artifacts.manifest));
+
+// snarkjs can't start threads of its own from a worker, so it is given a
+// single-threaded curve, which it reuses instead of building one
+const curve = buildBn128(true).then((bn128) => {
+  (globalThis as { curve_bn128?: unknown }).curve_bn128 = bn128;
+});
+
+parentPort!.on("message", async ({ identity, members, message, scope }: ProofJob) => {
+  let result: ProofJobResult;
+
+  try {
+    await curve;
+    result = { proof: await generate(Identity.import(identity), new Group(members), message, scope) };
+  } catch (error) {
+    result = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  parentPort!.postMessage(result);
+});
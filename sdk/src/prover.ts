@@ -0,0 +1,199 @@
+import { availableParallelism } from "os";
+import { extname, join } from "path";
+import { Worker } from "worker_threads";
+import { BigNumberish, toBigInt } from "ethers";
+import { Group, Identity, SemaphoreProof } from "@semaphore-protocol/core";
+import { ArtifactManifest, ArtifactStore, generateSemaphoreProof } from "./artifacts";
+
+/**
+ * Generates the Semaphore proof of a group member for a message and scope.
+ */
+export type ProofGenerator = (
+  identity: Identity,
+  group: Group,
+  message: BigNumberish,
+  scope: BigNumberish,
+) => Promise<SemaphoreProof>;
+
+/**
+ * Proof generator on the calling thread, with the artifacts from the store or
+ * fetched by snarkjs without one.
+ */
+export function createLocalProofGenerator(artifacts?: ArtifactStore): ProofGenerator {
+  return (identity, group, message, scope) => generateSemaphoreProof(identity, group, message, scope, artifacts);
+}
+
+/** What proofWorker needs to open the same artifact store */
+export type ProofWorkerData = {
+  /**
+   * The worker itself. snarkjs loads web-worker, which takes over any worker
+   * thread it is loaded in and requires workerData.mod as its script.
+   */
+  mod: string;
+  artifacts?: { directory: string; manifest: ArtifactManifest };
+};
+
+/** A proof job, with the identity exported and the group as its members */
+export type ProofJob = {
+  identity: string;
+  members: bigint[];
+  message: BigNumberish;
+  scope: BigNumberish;
+};
+
+export type ProofJobResult = { proof: SemaphoreProof } | { error: string };
+
+export type ProofPoolOptions = {
+  /** Number of worker threads, one less than the available cores by default */
+  size?: number;
+  /** Local artifacts, each worker keeps its own copy in memory */
+  artifacts?: ArtifactStore;
+};
+
+export type ProofPool = {
+  generate: ProofGenerator;
+  /** Terminates the workers and rejects the proofs still queued */
+  destroy: () => Promise<void>;
+};
+
+type PendingJob = {
+  job: ProofJob;
+  resolve: (proof: SemaphoreProof) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  current?: PendingJob;
+};
+
+// Under ts-node the worker is the .ts source, which needs ts-node in the worker too
+const WORKER_PATH = join(__dirname, `proofWorker${extname(__filename)}`);
+const WORKER_EXEC_ARGV = extname(__filename) === ".ts" ? ["--require", "ts-node/register"] : [];
+
+/**
+ * Pool of worker threads generating proofs off the event loop. Workers are
+ * started as jobs come in, up to the pool size, and a worker that crashes
+ * fails its proof and is replaced on the next job.
+ */
+export function createProofPool(options: ProofPoolOptions = {}): ProofPool {
+  const size = options.size ?? Math.max(availableParallelism() - 1, 1);
+  if (size < 1) {
+    throw new Error(`Proof pool size must be at least 1, got ${size}`);
+  }
+
+  const workerData: ProofWorkerData = {
+    mod: WORKER_PATH,
+    artifacts: options.artifacts && {
+      directory: options.artifacts.directory,
+      manifest: options.artifacts.manifest,
+    },
+  };
+
+  const workers: PoolWorker[] = [];
+  const queue: PendingJob[] = [];
+  let destroyed = false;
+
+  function startWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(WORKER_PATH, { workerData, execArgv: WORKER_EXEC_ARGV }),
+    };
+
+    poolWorker.worker.on("message", (result: ProofJobResult) => {
+      const pending = poolWorker.current;
+      poolWorker.current = undefined;
+
+      if ("error" in result) {
+        pending?.reject(new Error(result.error));
+      } else {
+        pending?.resolve(result.proof);
+      }
+      dispatch();
+    });
+
+    poolWorker.worker.on("error", (error) => {
+      poolWorker.current?.reject(error instanceof Error ? error : new Error(String(error)));
+      poolWorker.current = undefined;
+    });
+
+    poolWorker.worker.on("exit", () => {
+      workers.splice(workers.indexOf(poolWorker), 1);
+      poolWorker.current?.reject(new Error("Proof worker exited before returning the proof"));
+      poolWorker.current = undefined;
+      dispatch();
+    });
+
+    workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  function dispatch() {
+    while (!destroyed && queue.length > 0) {
+      const idle = workers.find((poolWorker) => !poolWorker.current) ?? (workers.length < size && startWorker());
+      if (!idle) {
+        return;
+      }
+
+      idle.current = queue.shift();
+      idle.worker.postMessage(idle.current!.job);
+    }
+  }
+
+  return {
+    generate: (identity, group, message, scope) => {
+      if (destroyed) {
+        return Promise.reject(new Error("Proof pool is destroyed"));
+      }
+
+      return new Promise((resolve, reject) => {
+        const job = { identity: identity.export(), members: group.members, message, scope };
+        queue.push({ job, resolve, reject });
+        dispatch();
+      });
+    },
+    destroy: async () => {
+      destroyed = true;
+      const pending = [...queue.splice(0), ...workers.flatMap((poolWorker) => poolWorker.current ?? [])];
+      for (const { reject } of pending) {
+        reject(new Error("Proof pool is destroyed"));
+      }
+      await Promise.all(workers.map(({ worker }) => worker.terminate()));
+    },
+  };
+}
+
+export type ProofCache = {
+  generate: ProofGenerator;
+  clear: () => void;
+};
+
+/**
+ * Reuses the proof of a member for the same group root, scope and message,
+ * so a relayer re-sending for many members doesn't prove twice. Entries past
+ * maxEntries are dropped oldest first, and failed proofs are not kept.
+ */
+export function createProofCache(generate: ProofGenerator, maxEntries = 1024): ProofCache {
+  const proofs = new Map<string, Promise<SemaphoreProof>>();
+
+  return {
+    generate: (identity, group, message, scope) => {
+      const key = `${identity.commitment}:${group.root}:${toBigInt(scope)}:${toBigInt(message)}`;
+
+      const cached = proofs.get(key);
+      if (cached) {
+        return cached;
+      }
+
+      const proof = generate(identity, group, message, scope);
+      proofs.set(key, proof);
+      proof.catch(() => proofs.get(key) === proof && proofs.delete(key));
+
+      if (proofs.size > maxEntries) {
+        proofs.delete(proofs.keys().next().value!);
+      }
+
+      return proof;
+    },
+    clear: () => proofs.clear(),
+  };
+}
@@ -0,0 +1,228 @@
+import { Contract, Interface, Provider, toBigInt } from "ethers";
+import { ENTRY_POINT_ABI, GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, GROUP_DEPOSITS_ABI } from "./abis";
+import {
+  decodeCachedPaymasterData,
+  decodeExcubiaePaymasterData,
+  decodeGasLimitedPaymasterData,
+  decodeSimplePaymasterData,
+} from "./paymasterData";
+import { PaymasterVariant, UserOperation } from "./types";
+
+/**
+ * A log as returned by JSON-RPC, quantities hex-encoded.
+ */
+export type RpcLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: string;
+  blockNumber?: string;
+  transactionHash?: string;
+};
+
+/**
+ * eth_getUserOperationReceipt result as returned by the bundler.
+ */
+export type RpcUserOperationReceipt = {
+  userOpHash: string;
+  entryPoint: string;
+  sender: string;
+  nonce: string;
+  paymaster: string;
+  actualGasCost: string;
+  actualGasUsed: string;
+  success: boolean;
+  /** Revert data of the call, "0x" or "" when it succeeded */
+  reason: string;
+  /** Logs emitted while this operation executed */
+  logs: RpcLog[];
+  /** Receipt of the bundle transaction */
+  receipt: {
+    transactionHash: string;
+    blockHash: string;
+    blockNumber: string;
+    logs: RpcLog[];
+    [key: string]: unknown;
+  };
+};
+
+export type UserOperationLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: number;
+};
+
+/**
+ * The EntryPoint's UserOperationEvent for the operation, decoded from the bundle transaction.
+ */
+export type UserOperationEvent = {
+  userOpHash: string;
+  sender: string;
+  paymaster: string;
+  nonce: bigint;
+  success: boolean;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  logIndex: number;
+};
+
+export type UserOperationReceipt = {
+  userOpHash: string;
+  entryPoint: string;
+  sender: string;
+  nonce: bigint;
+  paymaster: string;
+  /** What the paymaster's EntryPoint deposit paid, postOp included */
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  success: boolean;
+  reason: string;
+  logs: UserOperationLog[];
+  /** Hash of the bundle transaction that included the operation */
+  transactionHash: string;
+  blockHash: string;
+  blockNumber: number;
+  event: UserOperationEvent;
+  receipt: RpcUserOperationReceipt["receipt"];
+};
+
+/**
+ * What the paymaster's _postOp charged for an operation, read from its
+ * storage before and after the bundle's block.
+ */
+export type PostOpCharge = {
+  /** groupDeposits(groupId) before minus after */
+  groupDepositCharged: bigint;
+  /** gasData(nullifier).gasUsed after minus before, GasLimitedSemaphorePaymaster only */
+  gasUsedCharged?: bigint;
+  /** The actualGasCost _postOp was called with: gasUsedCharged for the gas limited paymaster, groupDepositCharged otherwise */
+  charged: bigint;
+  /** actualGasCost of the UserOperationEvent */
+  actualGasCost: bigint;
+  /** Gas cost the EntryPoint adds after _postOp runs (postOp itself and the unused gas penalty), not charged to the group */
+  uncharged: bigint;
+};
+
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+function toLog(log: RpcLog): UserOperationLog {
+  return { address: log.address, topics: log.topics, data: log.data, logIndex: Number(log.logIndex) };
+}
+
+/**
+ * Decodes the UserOperationEvent of the operation from the bundle transaction's logs.
+ */
+export function findUserOperationEvent(
+  logs: RpcLog[],
+  entryPoint: string,
+  userOpHash: string,
+): UserOperationEvent | undefined {
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== entryPoint.toLowerCase()) {
+      continue;
+    }
+
+    const parsed = entryPointInterface.parseLog(log);
+    if (parsed?.name !== "UserOperationEvent" || parsed.args.userOpHash !== userOpHash) {
+      continue;
+    }
+
+    return {
+      userOpHash: parsed.args.userOpHash,
+      sender: parsed.args.sender,
+      paymaster: parsed.args.paymaster,
+      nonce: parsed.args.nonce,
+      success: parsed.args.success,
+      actualGasCost: parsed.args.actualGasCost,
+      actualGasUsed: parsed.args.actualGasUsed,
+      logIndex: Number(log.logIndex),
+    };
+  }
+}
+
+export function parseUserOperationReceipt(receipt: RpcUserOperationReceipt): UserOperationReceipt {
+  const { transactionHash, blockHash, blockNumber, logs } = receipt.receipt;
+  const event = findUserOperationEvent(logs, receipt.entryPoint, receipt.userOpHash);
+
+  if (!event) {
+    throw new Error(`No UserOperationEvent for ${receipt.userOpHash} in ${transactionHash}`);
+  }
+
+  return {
+    userOpHash: receipt.userOpHash,
+    entryPoint: receipt.entryPoint,
+    sender: receipt.sender,
+    nonce: toBigInt(receipt.nonce),
+    paymaster: receipt.paymaster,
+    actualGasCost: toBigInt(receipt.actualGasCost),
+    actualGasUsed: toBigInt(receipt.actualGasUsed),
+    success: receipt.success,
+    reason: receipt.reason,
+    logs: receipt.logs.map(toLog),
+    transactionHash,
+    blockHash,
+    blockNumber: Number(blockNumber),
+    event,
+    receipt: receipt.receipt,
+  };
+}
+
+function decodeChargeKey(variant: PaymasterVariant, userOp: UserOperation): { groupId: bigint; nullifier?: bigint } {
+  const paymasterData = userOp.paymasterData ?? "0x";
+
+  switch (variant) {
+    case "simple":
+      return decodeSimplePaymasterData(paymasterData);
+    case "cached":
+      return decodeCachedPaymasterData(paymasterData);
+    case "gasLimited":
+      return decodeGasLimitedPaymasterData(paymasterData);
+    case "excubiae":
+      return decodeExcubiaePaymasterData(paymasterData);
+  }
+}
+
+/**
+ * Works out what _postOp took from groupDeposits, or for the gas limited
+ * paymaster added to gasData.gasUsed, by reading both at the block before the
+ * bundle and at the bundle's block. Other operations of the same group in
+ * that block are counted too, so use it with one operation per block.
+ */
+export async function getPostOpCharge(
+  provider: Provider,
+  variant: PaymasterVariant,
+  userOp: UserOperation,
+  receipt: UserOperationReceipt,
+): Promise<PostOpCharge> {
+  const { groupId, nullifier } = decodeChargeKey(variant, userOp);
+  const before = { blockTag: receipt.blockNumber - 1 };
+  const after = { blockTag: receipt.blockNumber };
+
+  const paymaster = new Contract(
+    receipt.paymaster,
+    variant === "gasLimited" ? GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI : GROUP_DEPOSITS_ABI,
+    provider,
+  );
+
+  const depositBefore: bigint = await paymaster.groupDeposits(groupId, before);
+  const depositAfter: bigint = await paymaster.groupDeposits(groupId, after);
+  const groupDepositCharged = depositBefore - depositAfter;
+
+  let gasUsedCharged: bigint | undefined;
+  if (variant === "gasLimited") {
+    const [gasUsedBefore]: bigint[] = await paymaster.gasData(nullifier, before);
+    const [gasUsedAfter]: bigint[] = await paymaster.gasData(nullifier, after);
+    gasUsedCharged = gasUsedAfter - gasUsedBefore;
+  }
+
+  const charged = gasUsedCharged ?? groupDepositCharged;
+
+  return {
+    groupDepositCharged,
+    gasUsedCharged,
+    charged,
+    actualGasCost: receipt.actualGasCost,
+    uncharged: receipt.actualGasCost - charged,
+  };
+}
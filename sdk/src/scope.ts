@@ -0,0 +1,75 @@
+import { AbiCoder, BigNumberish, keccak256, toBigInt } from "ethers";
+import { PaymasterVariant } from "./types";
+
+/**
+ * Scope used by the Excubiae paymaster: the entry point address in the upper
+ * bits and the group ID in the lower 96 bits. The layout is fixed by
+ * Excubiae's SemaphoreChecker, so unlike the other scopes it isn't bound to
+ * the chain or the paymaster.
+ */
+export function generateScope(entryPointAddress: string, groupId: BigNumberish): bigint {
+  return (toBigInt(entryPointAddress) << 96n) | toBigInt(groupId);
+}
+
+/**
+ * Scope used by SimpleSemaphorePaymaster and CachedSemaphorePaymaster:
+ * keccak256(abi.encode(chainId, paymasterAddress, groupId)), so a proof can't
+ * be replayed on another chain or deployment with the same group.
+ */
+export function generatePaymasterScope(chainId: BigNumberish, paymasterAddress: string, groupId: BigNumberish): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(["uint256", "address", "uint256"], [chainId, paymasterAddress, groupId]),
+  );
+}
+
+/**
+ * Scope used by GasLimitedSemaphorePaymaster:
+ * keccak256(abi.encode(chainId, paymasterAddress, groupId, epoch)). Each epoch
+ * gives members a new nullifier, and so a new gas budget.
+ */
+export function generateGasLimitedScope(
+  chainId: BigNumberish,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  epoch: BigNumberish,
+): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "address", "uint256", "uint256"],
+      [chainId, paymasterAddress, groupId, epoch],
+    ),
+  );
+}
+
+/**
+ * What the scope of a variant is derived from, besides the group ID.
+ */
+export type ScopeContext = {
+  chainId: BigNumberish;
+  paymasterAddress: string;
+  /** Excubiae only */
+  entryPointAddress?: string;
+  /** GasLimited only, the paymaster's currentEpoch */
+  epoch?: BigNumberish;
+};
+
+/**
+ * Scope the variant's paymaster expects in the proofs for a group.
+ */
+export function generateVariantScope(variant: PaymasterVariant, groupId: BigNumberish, context: ScopeContext): bigint {
+  switch (variant) {
+    case "simple":
+    case "cached":
+      return toBigInt(generatePaymasterScope(context.chainId, context.paymasterAddress, groupId));
+    case "gasLimited":
+      if (context.epoch === undefined) {
+        throw new Error("The gas limited scope needs the epoch");
+      }
+      return toBigInt(generateGasLimitedScope(context.chainId, context.paymasterAddress, groupId, context.epoch));
+    case "excubiae":
+      if (!context.entryPointAddress) {
+        throw new Error("The excubiae scope needs the entry point address");
+      }
+      return generateScope(context.entryPointAddress, groupId);
+  }
+}
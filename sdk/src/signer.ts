@@ -0,0 +1,87 @@
+import {
+  BytesLike,
+  getBytes,
+  hashMessage,
+  hexlify,
+  Signer,
+  SigningKey,
+  TypedDataDomain,
+  TypedDataEncoder,
+} from "ethers";
+import { getUserOpHash } from "./userOp";
+import { UserOperation } from "./types";
+
+/**
+ * Produces the account signature of an operation from its userOpHash.
+ */
+export type UserOperationSigner = (userOpHash: string, userOp: UserOperation) => Promise<string>;
+
+/**
+ * Domain of the typed data signed by createTypedDataUserOpSigner. The
+ * account itself is the verifying contract, so it is filled in from the
+ * operation's sender.
+ */
+export type UserOperationTypedDataDomain = Omit<TypedDataDomain, "verifyingContract">;
+
+/**
+ * The typed data an EIP-712 account checks: the userOpHash wrapped in a struct,
+ * as the mock VerifyingSimpleAccount does.
+ */
+export const USER_OPERATION_TYPED_DATA_TYPES = {
+  UserOperation: [{ name: "userOpHash", type: "bytes32" }],
+};
+
+/**
+ * EIP-191 signature over the userOpHash with an ethers Signer, the scheme of
+ * eth-infinitism's SimpleAccount.
+ */
+export function createEthersUserOpSigner(signer: Signer): UserOperationSigner {
+  return (userOpHash) => signer.signMessage(getBytes(userOpHash));
+}
+
+/**
+ * EIP-191 signature over the userOpHash with a raw private key, without a
+ * provider or wallet.
+ */
+export function createPrivateKeyUserOpSigner(privateKey: BytesLike): UserOperationSigner {
+  const signingKey = new SigningKey(hexlify(privateKey));
+  return async (userOpHash) => signingKey.sign(hashMessage(getBytes(userOpHash))).serialized;
+}
+
+/**
+ * EIP-712 signature over the userOpHash for accounts that check typed data,
+ * with the operation's sender as verifying contract.
+ */
+export function createTypedDataUserOpSigner(signer: Signer, domain: UserOperationTypedDataDomain): UserOperationSigner {
+  return (userOpHash, userOp) =>
+    signer.signTypedData({ ...domain, verifyingContract: userOp.sender }, USER_OPERATION_TYPED_DATA_TYPES, {
+      userOpHash,
+    });
+}
+
+/**
+ * The digest an EIP-712 account recovers the signer from.
+ */
+export function getUserOperationTypedDataHash(
+  userOpHash: string,
+  sender: string,
+  domain: UserOperationTypedDataDomain,
+): string {
+  return TypedDataEncoder.hash({ ...domain, verifyingContract: sender }, USER_OPERATION_TYPED_DATA_TYPES, {
+    userOpHash,
+  });
+}
+
+/**
+ * Returns the operation with its signature from the signer, over the
+ * userOpHash for the given EntryPoint and chain.
+ */
+export async function signUserOperation(
+  userOp: UserOperation,
+  entryPointAddress: string,
+  chainId: number,
+  signer: UserOperationSigner,
+): Promise<UserOperation> {
+  const userOpHash = getUserOpHash(userOp, entryPointAddress, chainId);
+  return { ...userOp, signature: await signer(userOpHash, userOp) };
+}
@@ -0,0 +1,123 @@
+import { BigNumberish, BlockTag, Contract, Interface, Provider, Signer, toBigInt, TransactionReceipt } from "ethers";
+import { ENTRY_POINT_ABI, GROUP_DEPOSITS_ABI } from "./abis";
+
+export type GroupBalance = {
+  groupId: bigint;
+  groupDeposit: bigint;
+  entryPointBalance: bigint;
+};
+
+export type TreasuryReport = {
+  entryPointBalance: bigint;
+  groups: { groupId: bigint; groupDeposit: bigint }[];
+  totalGroupDeposits: bigint;
+  /** EntryPoint balance minus the sum of the group deposits */
+  drift: bigint;
+};
+
+const paymasterInterface = new Interface(GROUP_DEPOSITS_ABI);
+
+async function getEntryPoint(provider: Provider, paymasterAddress: string): Promise<Contract> {
+  const paymaster = new Contract(paymasterAddress, GROUP_DEPOSITS_ABI, provider);
+  return new Contract(await paymaster.entryPoint(), ENTRY_POINT_ABI, provider);
+}
+
+/**
+ * Funds a group through depositForGroup. Works for SimpleSemaphorePaymaster
+ * and its subclasses as well as ExcubiaePaymaster.
+ */
+export async function depositForGroup(
+  signer: Signer,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+  amount: BigNumberish,
+): Promise<TransactionReceipt> {
+  const paymaster = new Contract(paymasterAddress, GROUP_DEPOSITS_ABI, signer);
+  const tx = await paymaster.depositForGroup(groupId, { value: amount });
+  const receipt = await tx.wait();
+
+  if (!receipt) {
+    throw new Error(`No receipt for deposit ${tx.hash}`);
+  }
+
+  return receipt;
+}
+
+/**
+ * groupDeposits[groupId] next to the paymaster's EntryPoint balance.
+ */
+export async function readGroupBalance(
+  provider: Provider,
+  paymasterAddress: string,
+  groupId: BigNumberish,
+): Promise<GroupBalance> {
+  const paymaster = new Contract(paymasterAddress, GROUP_DEPOSITS_ABI, provider);
+  const entryPoint = await getEntryPoint(provider, paymasterAddress);
+
+  const [groupDeposit, entryPointBalance] = await Promise.all([
+    paymaster.groupDeposits(groupId) as Promise<bigint>,
+    entryPoint.balanceOf(paymasterAddress) as Promise<bigint>,
+  ]);
+
+  return { groupId: toBigInt(groupId), groupDeposit, entryPointBalance };
+}
+
+/**
+ * Group IDs funded through depositForGroup. depositForGroup emits no event of
+ * its own, so the EntryPoint Deposited events for the paymaster are used to
+ * find the deposit transactions, whose calldata holds the group ID. Deposits
+ * made through another contract are not found.
+ */
+export async function findDepositedGroups(
+  provider: Provider,
+  paymasterAddress: string,
+  fromBlock: BlockTag = 0,
+  toBlock: BlockTag = "latest",
+): Promise<bigint[]> {
+  const entryPoint = await getEntryPoint(provider, paymasterAddress);
+  const events = await entryPoint.queryFilter(entryPoint.filters.Deposited(paymasterAddress), fromBlock, toBlock);
+  const txHashes = [...new Set(events.map((event) => event.transactionHash))];
+  const groupIds = new Set<bigint>();
+
+  for (const txHash of txHashes) {
+    const tx = await provider.getTransaction(txHash);
+    if (tx?.to?.toLowerCase() !== paymasterAddress.toLowerCase()) {
+      continue;
+    }
+
+    const parsed = paymasterInterface.parseTransaction({ data: tx.data, value: tx.value });
+    if (parsed?.name === "depositForGroup") {
+      groupIds.add(toBigInt(parsed.args.groupId));
+    }
+  }
+
+  return [...groupIds].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Balances of every group found by findDepositedGroups, and the drift between
+ * their sum and the paymaster's real EntryPoint deposit.
+ */
+export async function readTreasury(
+  provider: Provider,
+  paymasterAddress: string,
+  fromBlock: BlockTag = 0,
+  toBlock: BlockTag = "latest",
+): Promise<TreasuryReport> {
+  const paymaster = new Contract(paymasterAddress, GROUP_DEPOSITS_ABI, provider);
+  const entryPoint = await getEntryPoint(provider, paymasterAddress);
+  const groupIds = await findDepositedGroups(provider, paymasterAddress, fromBlock, toBlock);
+
+  const groups = await Promise.all(
+    groupIds.map(async (groupId) => ({ groupId, groupDeposit: (await paymaster.groupDeposits(groupId)) as bigint })),
+  );
+  const entryPointBalance: bigint = await entryPoint.balanceOf(paymasterAddress);
+  const totalGroupDeposits = groups.reduce((total, group) => total + group.groupDeposit, 0n);
+
+  return {
+    entryPointBalance,
+    groups,
+    totalGroupDeposits,
+    drift: entryPointBalance - totalGroupDeposits,
+  };
+}
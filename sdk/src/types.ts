@@ -0,0 +1,63 @@
+import { BigNumberish, BytesLike } from "ethers";
+
+export type UserOperation = {
+  sender: string;
+  nonce: BigNumberish;
+  factory?: string;
+  factoryData?: BytesLike;
+  callData: BytesLike;
+  callGasLimit: BigNumberish;
+  verificationGasLimit: BigNumberish;
+  preVerificationGas: BigNumberish;
+  maxFeePerGas: BigNumberish;
+  maxPriorityFeePerGas: BigNumberish;
+  paymaster?: string;
+  paymasterVerificationGasLimit?: BigNumberish;
+  paymasterPostOpGasLimit?: BigNumberish;
+  paymasterData?: BytesLike;
+  signature: BytesLike;
+};
+
+export type PackedUserOperation = {
+  sender: string;
+  nonce: BigNumberish;
+  initCode: BytesLike;
+  callData: BytesLike;
+  accountGasLimits: BytesLike;
+  preVerificationGas: BigNumberish;
+  gasFees: BytesLike;
+  paymasterAndData: BytesLike;
+  signature: BytesLike;
+};
+
+export type FactoryParams = {
+  factory: string;
+  factoryData?: BytesLike;
+};
+
+/**
+ * Mirrors ISemaphore.SemaphoreProof. Accepts the proof returned by
+ * generateProof as well as values decoded from paymaster data.
+ */
+export type SemaphoreProofStruct = {
+  merkleTreeDepth: BigNumberish;
+  merkleTreeRoot: BigNumberish;
+  nullifier: BigNumberish;
+  message: BigNumberish;
+  scope: BigNumberish;
+  points: BigNumberish[];
+};
+
+/**
+ * A SemaphoreProofStruct with every field normalised to bigint, as returned by the decoders.
+ */
+export type DecodedSemaphoreProof = {
+  merkleTreeDepth: bigint;
+  merkleTreeRoot: bigint;
+  nullifier: bigint;
+  message: bigint;
+  scope: bigint;
+  points: bigint[];
+};
+
+export type PaymasterVariant = "simple" | "cached" | "gasLimited" | "excubiae";
@@ -0,0 +1,363 @@
+import {
+  AbiCoder,
+  BigNumberish,
+  BytesLike,
+  concat,
+  ethers,
+  hexlify,
+  isHexString,
+  JsonRpcApiProvider,
+  keccak256,
+  toQuantity,
+} from "ethers";
+import { parseUserOperationError, ReceiptTimeoutError } from "./errors";
+import { applyGasStrategy, DEFAULT_GAS_STRATEGY, GasEstimate, GasStrategy } from "./gas";
+import { getNonce } from "./nonce";
+import { parseUserOperationReceipt, RpcUserOperationReceipt, UserOperationReceipt } from "./receipt";
+import { FactoryParams, PackedUserOperation, UserOperation } from "./types";
+
+/**
+ * Placeholder signature for gas estimation and for accounts that don't check
+ * signatures, such as the mock SimpleAccount. Signature checking accounts take
+ * one from a UserOperationSigner.
+ */
+export const DUMMY_SIGNATURE =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+/**
+ * calculate the userOpHash of a given userOperation.
+ * The userOpHash is a hash of all UserOperation fields, except the "signature" field.
+ * The entryPoint uses this value in the emitted UserOperationEvent.
+ * A wallet may use this value as the hash to sign (the SampleWallet uses this method)
+ * @param op
+ * @param entryPoint
+ * @param chainId
+ */
+export function getUserOpHash(op: UserOperation, entryPoint: string, chainId: number): string {
+  const userOpHash = keccak256(encodeUserOp(op, true));
+  const defaultAbiCoder = AbiCoder.defaultAbiCoder();
+  const enc = defaultAbiCoder.encode(["bytes32", "address", "uint256"], [userOpHash, entryPoint, chainId]);
+  return keccak256(enc);
+}
+
+/**
+ * abi-encode the userOperation
+ * @param op a PackedUserOp
+ * @param forSignature "true" if the hash is needed to calculate the getUserOpHash()
+ *  "false" to pack entire UserOp, for calculating the calldata cost of putting it on-chain.
+ */
+export function encodeUserOp(op1: PackedUserOperation | UserOperation, forSignature = true): string {
+  // if "op" is unpacked UserOperation, then pack it first, before we ABI-encode it.
+
+  let op: PackedUserOperation;
+  if ("callGasLimit" in op1) {
+    op = packUserOp(op1);
+  } else {
+    op = op1;
+  }
+
+  const defaultAbiCoder = AbiCoder.defaultAbiCoder();
+  if (forSignature) {
+    return defaultAbiCoder.encode(
+      ["address", "uint256", "bytes32", "bytes32", "bytes32", "uint256", "bytes32", "bytes32"],
+      [
+        op.sender,
+        op.nonce,
+        keccak256(op.initCode),
+        keccak256(op.callData),
+        op.accountGasLimits,
+        op.preVerificationGas,
+        op.gasFees,
+        keccak256(op.paymasterAndData),
+      ],
+    );
+  } else {
+    // for the purpose of calculating gas cost encode also signature (and no keccak of bytes)
+    return defaultAbiCoder.encode(
+      ["address", "uint256", "bytes", "bytes", "bytes32", "uint256", "bytes32", "bytes", "bytes"],
+      [
+        op.sender,
+        op.nonce,
+        op.initCode,
+        op.callData,
+        op.accountGasLimits,
+        op.preVerificationGas,
+        op.gasFees,
+        op.paymasterAndData,
+        op.signature,
+      ],
+    );
+  }
+}
+
+export function packUserOp(op: UserOperation): PackedUserOperation {
+  let paymasterAndData: BytesLike;
+  if (op.paymaster == null) {
+    paymasterAndData = "0x";
+  } else {
+    if (op.paymasterVerificationGasLimit == null || op.paymasterPostOpGasLimit == null) {
+      throw new Error("paymaster with no gas limits");
+    }
+    paymasterAndData = packPaymasterData(
+      op.paymaster,
+      op.paymasterVerificationGasLimit,
+      op.paymasterPostOpGasLimit,
+      op.paymasterData,
+    );
+  }
+
+  return {
+    sender: op.sender,
+    nonce: "0x" + BigInt(op.nonce).toString(16),
+    initCode: op.factory == null ? "0x" : concat([op.factory, op.factoryData ?? ""]),
+    callData: op.callData,
+    accountGasLimits: packUint(op.verificationGasLimit, op.callGasLimit),
+    preVerificationGas: "0x" + BigInt(op.preVerificationGas).toString(16),
+    gasFees: packUint(op.maxPriorityFeePerGas, op.maxFeePerGas),
+    paymasterAndData,
+    signature: op.signature,
+  };
+}
+
+export function packPaymasterData(
+  paymaster: string,
+  paymasterVerificationGasLimit: BigNumberish,
+  postOpGasLimit: BigNumberish,
+  paymasterData?: BytesLike,
+): BytesLike {
+  return concat([paymaster, packUint(paymasterVerificationGasLimit, postOpGasLimit), paymasterData ?? "0x"]);
+}
+
+export function packUint(high128: BigNumberish, low128: BigNumberish): string {
+  high128 = BigInt(high128);
+  low128 = BigInt(low128);
+  const packed = "0x" + ((high128 << 128n) + low128).toString(16);
+  return hexZeroPad(packed, 32);
+}
+
+/**
+ * Left pads a hex value with zeros to length bytes. Unlike ethers v6's
+ * zeroPadValue it accepts odd length hex strings, such as the ones packUint builds.
+ */
+export function hexZeroPad(value: BytesLike, length: number): string {
+  if (typeof value !== "string") {
+    value = hexlify(value);
+  } else if (!isHexString(value)) {
+    throw new Error(`Invalid hex string ${value}`);
+  }
+
+  if (value.length > 2 * length + 2) {
+    throw new Error(`Value ${value} is longer than ${length} bytes`);
+  }
+
+  while (value.length < 2 * length + 2) {
+    value = "0x0" + value.substring(2);
+  }
+
+  return value;
+}
+
+/**
+ * The bundler's estimate for the operation and the provider's fee data, without margins.
+ */
+export async function getGasEstimates(
+  provider: JsonRpcApiProvider,
+  bundlerProvider: JsonRpcApiProvider,
+  partialUserOperation: Partial<UserOperation>,
+  entryPointAddress: string,
+): Promise<GasEstimate> {
+  const gasEstimate = (await bundlerProvider
+    .send("eth_estimateUserOperationGas", [partialUserOperation, entryPointAddress])
+    .catch((error) => {
+      throw parseUserOperationError(error);
+    })) as {
+    verificationGasLimit: string;
+    preVerificationGas: string;
+    paymasterVerificationGasLimit?: string;
+    callGasLimit: string;
+  };
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = await getFeeData(provider);
+
+  return {
+    callGasLimit: BigInt(gasEstimate.callGasLimit),
+    verificationGasLimit: BigInt(gasEstimate.verificationGasLimit),
+    preVerificationGas: BigInt(gasEstimate.preVerificationGas),
+    paymasterVerificationGasLimit:
+      gasEstimate.paymasterVerificationGasLimit !== undefined
+        ? BigInt(gasEstimate.paymasterVerificationGasLimit)
+        : undefined,
+    maxFeePerGas: BigInt(maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(maxPriorityFeePerGas),
+  };
+}
+
+export async function getFeeData(provider: ethers.Provider) {
+  const feeData = await provider.getFeeData();
+  if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
+    throw new Error("maxFeePerGas or maxPriorityFeePerGas is null or undefined");
+  }
+
+  const maxFeePerGas = toQuantity(feeData.maxFeePerGas);
+  const maxPriorityFeePerGas = toQuantity(feeData.maxPriorityFeePerGas);
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Paymaster verification gas the bundler may simulate with, before the estimate is known
+const ESTIMATION_PAYMASTER_VERIFICATION_GAS_LIMIT = 3000000n;
+
+/**
+ * Estimates the operation with its paymaster fields and sizes it with the gas
+ * strategy. Pass the real paymaster data, or a placeholder of the same size
+ * (createDummyPaymasterData) when the proof is generated afterwards.
+ */
+export const createUserOperation = async (
+  provider: JsonRpcApiProvider,
+  bundlerProvider: JsonRpcApiProvider,
+  accountAddress: string,
+  factoryParams: FactoryParams,
+  userOpCallData: string,
+  entryPointAddress: string,
+  dummySignature: string,
+  paymaster?: string,
+  paymasterPostOpGasLimit?: BigNumberish,
+  paymasterData?: BytesLike,
+  gasStrategy: GasStrategy = DEFAULT_GAS_STRATEGY,
+  nonce?: BigNumberish,
+) => {
+  const nonceHex = toQuantity(nonce ?? (await getNonce(provider, entryPointAddress, accountAddress)));
+
+  let userOp: Partial<UserOperation> = {
+    sender: accountAddress,
+    nonce: nonceHex,
+    callData: userOpCallData,
+    callGasLimit: "0x00",
+    signature: dummySignature,
+  };
+
+  if (factoryParams.factory !== "0x") {
+    userOp.factory = factoryParams.factory;
+    userOp.factoryData = factoryParams.factoryData;
+  }
+
+  // The paymaster data is part of the estimate: its size counts towards
+  // preVerificationGas and the bundler simulates the paymaster's validation
+  if (paymaster) {
+    userOp.paymaster = paymaster;
+    userOp.paymasterVerificationGasLimit = toQuantity(ESTIMATION_PAYMASTER_VERIFICATION_GAS_LIMIT);
+    userOp.paymasterPostOpGasLimit = toQuantity(paymasterPostOpGasLimit ?? 0);
+    userOp.paymasterData = paymasterData;
+  }
+
+  const estimate = await getGasEstimates(provider, bundlerProvider, userOp, entryPointAddress);
+  const limits = applyGasStrategy(gasStrategy, estimate, BigInt(paymasterPostOpGasLimit ?? 0));
+
+  const unsignedUserOperation = {
+    sender: accountAddress,
+    nonce: nonceHex,
+    factory: userOp.factory,
+    factoryData: userOp.factoryData,
+    callData: userOpCallData,
+    callGasLimit: toQuantity(limits.callGasLimit),
+    verificationGasLimit: toQuantity(limits.verificationGasLimit),
+    preVerificationGas: toQuantity(limits.preVerificationGas),
+    maxFeePerGas: toQuantity(limits.maxFeePerGas),
+    maxPriorityFeePerGas: toQuantity(limits.maxPriorityFeePerGas),
+    paymaster: paymaster,
+    paymasterVerificationGasLimit: paymaster ? toQuantity(limits.paymasterVerificationGasLimit) : undefined,
+    paymasterPostOpGasLimit: toQuantity(limits.paymasterPostOpGasLimit),
+    paymasterData: paymasterData,
+    signature: dummySignature,
+  } satisfies UserOperation;
+
+  return await ethers.resolveProperties(unsignedUserOperation);
+};
+
+/**
+ * The operation's receipt, or null while the bundler has not included it yet.
+ */
+export async function getUserOperationReceipt(
+  bundlerProvider: JsonRpcApiProvider,
+  userOpHash: string,
+): Promise<UserOperationReceipt | null> {
+  const receipt = (await bundlerProvider.send("eth_getUserOperationReceipt", [
+    userOpHash,
+  ])) as RpcUserOperationReceipt | null;
+
+  return receipt === null ? null : parseUserOperationReceipt(receipt);
+}
+
+/**
+ * Sends the operation to the bundler and polls for its receipt. A rejection
+ * is thrown as a UserOperationError carrying the EntryPoint's AAxx code, and
+ * a missing receipt after maxAttempts polls as a ReceiptTimeoutError.
+ */
+export default async function sendUserOpAndWait(
+  userOp: UserOperation,
+  entryPoint: string,
+  bundlerProvider: JsonRpcApiProvider,
+  pollingDelay = 100,
+  maxAttempts = 200,
+): Promise<UserOperationReceipt> {
+  const userOpHash = (await bundlerProvider.send("eth_sendUserOperation", [userOp, entryPoint]).catch((error) => {
+    throw parseUserOperationError(error);
+  })) as string;
+
+  let receipt: UserOperationReceipt | null = null;
+
+  let attempts = 0;
+
+  while (attempts < maxAttempts && receipt === null) {
+    await sleep(pollingDelay);
+
+    receipt = await getUserOperationReceipt(bundlerProvider, userOpHash);
+
+    attempts++;
+  }
+
+  if (receipt === null) {
+    throw new ReceiptTimeoutError(userOpHash, maxAttempts);
+  }
+
+  return receipt;
+}
+
+export { sendUserOpAndWait };
+
+export async function sleep(ms: number) {
+  await new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+export async function generateUnsignedUserOp(
+  entryPointAddress: string,
+  provider: JsonRpcApiProvider,
+  bundlerProvider: JsonRpcApiProvider,
+  emailAccountAddress: string,
+  callData: string,
+  paymaster?: string,
+  paymasterPostOpGasLimit?: BigNumberish,
+  paymasterData?: BytesLike,
+  gasStrategy?: GasStrategy,
+  factoryParams: FactoryParams = { factory: "0x", factoryData: "0x" },
+  nonce?: BigNumberish,
+) {
+  const dummySignature = "0x";
+
+  return await createUserOperation(
+    provider,
+    bundlerProvider,
+    emailAccountAddress,
+    factoryParams,
+    callData,
+    entryPointAddress,
+    dummySignature,
+    paymaster,
+    paymasterPostOpGasLimit,
+    paymasterData,
+    gasStrategy,
+    nonce,
+  );
+}
@@ -0,0 +1,327 @@
+import { Contract, isError, Provider, toBigInt } from "ethers";
+import {
+  CACHED_SEMAPHORE_PAYMASTER_ABI,
+  EXCUBIAE_PAYMASTER_ABI,
+  GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI,
+  SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+} from "./abis";
+import {
+  decodeCachedPaymasterData,
+  decodeExcubiaePaymasterData,
+  decodeGasLimitedPaymasterData,
+  decodeSimplePaymasterData,
+} from "./paymasterData";
+import { parseUserOperationError, UserOperationError } from "./errors";
+import { generateGasLimitedScope, generatePaymasterScope } from "./scope";
+import { DecodedSemaphoreProof, PaymasterVariant, UserOperation } from "./types";
+import { getRequiredPrefund } from "./gas";
+
+export type ValidationIssueCode =
+  | "MALFORMED_PAYMASTER_DATA"
+  | "INSUFFICIENT_GROUP_DEPOSIT"
+  | "INVALID_MESSAGE"
+  | "INVALID_SCOPE"
+  | "INVALID_GROUP_ID"
+  | "INVALID_PROOF"
+  | "STALE_MERKLE_ROOT"
+  | "STALE_EPOCH"
+  | "INVALID_SENDER"
+  | "GAS_LIMIT_EXCEEDED";
+
+/**
+ * A reason the paymaster's _validatePaymasterUserOp would reject the operation.
+ */
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  message: string;
+  expected?: bigint;
+  actual?: bigint;
+};
+
+/**
+ * On-chain values the checks depend on. Only the fields relevant to the
+ * variant and to the form of the paymaster data (cached or fresh) are set.
+ */
+export type ValidationState = {
+  groupDeposit: bigint;
+  merkleTreeRoot?: bigint;
+  proofVerified?: boolean;
+  /** Chain the Simple, Cached and GasLimited scopes are bound to */
+  chainId?: bigint;
+  lastMerkleRoot?: bigint;
+  currentEpoch?: bigint;
+  maxGasPerUserPerEpoch?: bigint;
+  gasData?: { gasUsed: bigint; lastMerkleRoot: bigint; epoch: bigint; sender: string };
+};
+
+type DecodedOperation = {
+  groupId: bigint;
+  useCache: boolean;
+  nullifier?: bigint;
+  proof?: DecodedSemaphoreProof;
+};
+
+const PAYMASTER_ABIS: Record<PaymasterVariant, string[]> = {
+  simple: SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  cached: CACHED_SEMAPHORE_PAYMASTER_ABI,
+  gasLimited: GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI,
+  excubiae: EXCUBIAE_PAYMASTER_ABI,
+};
+
+function malformedPaymasterData(error: unknown): ValidationIssue {
+  return { code: "MALFORMED_PAYMASTER_DATA", message: `Could not decode paymaster data: ${error}` };
+}
+
+function decodeOperation(variant: PaymasterVariant, userOp: UserOperation): DecodedOperation {
+  const paymasterData = userOp.paymasterData ?? "0x";
+
+  switch (variant) {
+    case "simple":
+      return { ...decodeSimplePaymasterData(paymasterData), useCache: false };
+    case "cached":
+      return decodeCachedPaymasterData(paymasterData);
+    case "gasLimited":
+      return decodeGasLimitedPaymasterData(paymasterData);
+    case "excubiae":
+      return { ...decodeExcubiaePaymasterData(paymasterData), useCache: false };
+  }
+}
+
+/**
+ * Reads the state _validatePaymasterUserOp would look at for this operation.
+ */
+export async function readValidationState(
+  provider: Provider,
+  variant: PaymasterVariant,
+  userOp: UserOperation,
+): Promise<ValidationState> {
+  if (!userOp.paymaster) {
+    throw new Error("User operation has no paymaster");
+  }
+
+  const paymaster = new Contract(userOp.paymaster, PAYMASTER_ABIS[variant], provider);
+  const { groupId, useCache, nullifier, proof } = decodeOperation(variant, userOp);
+
+  const state: ValidationState = { groupDeposit: await paymaster.groupDeposits(groupId) };
+
+  if (variant === "excubiae") {
+    return state;
+  }
+
+  state.merkleTreeRoot = await paymaster.getMerkleTreeRoot(groupId);
+
+  if (proof) {
+    // verifyProof reverts for unknown groups and expired roots, other errors are the provider's
+    state.proofVerified = await paymaster.verifyProof(groupId, proof).catch((error: unknown) => {
+      if (isError(error, "CALL_EXCEPTION")) {
+        return false;
+      }
+      throw error;
+    });
+    state.chainId = (await provider.getNetwork()).chainId;
+  }
+
+  if (variant === "cached" && useCache) {
+    state.lastMerkleRoot = await paymaster.lastMerkleRoot(userOp.sender, groupId);
+  }
+
+  if (variant === "gasLimited") {
+    const [gasUsed, lastMerkleRoot, epoch, sender] = await paymaster.gasData(nullifier);
+
+    state.currentEpoch = await paymaster.currentEpoch();
+    state.maxGasPerUserPerEpoch = await paymaster.maxGasPerUserPerEpoch(groupId);
+    state.gasData = { gasUsed, lastMerkleRoot, epoch, sender };
+  }
+
+  return state;
+}
+
+/**
+ * Repeats the checks of the paymaster's _validatePaymasterUserOp against the
+ * given state. Returns an empty list when the operation would be accepted.
+ */
+export function checkUserOperation(
+  variant: PaymasterVariant,
+  userOp: UserOperation,
+  state: ValidationState,
+): ValidationIssue[] {
+  let decoded: DecodedOperation;
+  try {
+    decoded = decodeOperation(variant, userOp);
+  } catch (error) {
+    return [malformedPaymasterData(error)];
+  }
+
+  const { groupId, useCache, proof } = decoded;
+  const issues: ValidationIssue[] = [];
+  const requiredPrefund = getRequiredPrefund(userOp);
+
+  if (state.groupDeposit < requiredPrefund) {
+    issues.push({
+      code: "INSUFFICIENT_GROUP_DEPOSIT",
+      message: `Group ${groupId} deposit does not cover the required prefund`,
+      expected: requiredPrefund,
+      actual: state.groupDeposit,
+    });
+  }
+
+  if (proof) {
+    const expectedMessage = toBigInt(userOp.sender);
+    if (proof.message !== expectedMessage) {
+      issues.push({
+        code: "INVALID_MESSAGE",
+        message: "Proof message is not the sender address",
+        expected: expectedMessage,
+        actual: proof.message,
+      });
+    }
+  }
+
+  if (variant === "excubiae" && proof) {
+    const scopeGroupId = proof.scope & ((1n << 96n) - 1n);
+    if (scopeGroupId !== groupId) {
+      issues.push({
+        code: "INVALID_GROUP_ID",
+        message: "Lower 96 bits of the proof scope are not the group ID",
+        expected: groupId,
+        actual: scopeGroupId,
+      });
+    }
+  }
+
+  if ((variant === "simple" || variant === "cached") && proof && userOp.paymaster && state.chainId !== undefined) {
+    const expectedScope = toBigInt(generatePaymasterScope(state.chainId, userOp.paymaster, groupId));
+    if (proof.scope !== expectedScope) {
+      issues.push({
+        code: "INVALID_SCOPE",
+        message: `Proof scope is not keccak256(chainId, paymaster, groupId) for chain ${state.chainId}`,
+        expected: expectedScope,
+        actual: proof.scope,
+      });
+    }
+  }
+
+  if (
+    variant === "gasLimited" &&
+    proof &&
+    userOp.paymaster &&
+    state.chainId !== undefined &&
+    state.currentEpoch !== undefined
+  ) {
+    const expectedScope = toBigInt(
+      generateGasLimitedScope(state.chainId, userOp.paymaster, groupId, state.currentEpoch),
+    );
+    if (proof.scope !== expectedScope) {
+      issues.push({
+        code: "INVALID_SCOPE",
+        message: `Proof scope is not keccak256(chainId, paymaster, groupId, currentEpoch) for chain ${state.chainId} and epoch ${state.currentEpoch}`,
+        expected: expectedScope,
+        actual: proof.scope,
+      });
+    }
+  }
+
+  if (proof && state.proofVerified === false) {
+    issues.push({ code: "INVALID_PROOF", message: `Proof does not verify against group ${groupId}` });
+  }
+
+  if (variant === "cached" && useCache && state.lastMerkleRoot !== state.merkleTreeRoot) {
+    issues.push({
+      code: "STALE_MERKLE_ROOT",
+      message: "Cached proof root does not match the current group root",
+      expected: state.merkleTreeRoot,
+      actual: state.lastMerkleRoot,
+    });
+  }
+
+  if (variant === "gasLimited" && useCache && state.gasData) {
+    if (state.gasData.lastMerkleRoot !== state.merkleTreeRoot) {
+      issues.push({
+        code: "STALE_MERKLE_ROOT",
+        message: "Cached nullifier root does not match the current group root",
+        expected: state.merkleTreeRoot,
+        actual: state.gasData.lastMerkleRoot,
+      });
+    }
+
+    if (state.gasData.epoch !== state.currentEpoch) {
+      issues.push({
+        code: "STALE_EPOCH",
+        message: "Cached nullifier was recorded in another epoch",
+        expected: state.currentEpoch,
+        actual: state.gasData.epoch,
+      });
+    }
+
+    // The nullifier is public once an operation is included, only the account its proof was for may use it
+    if (toBigInt(state.gasData.sender) !== toBigInt(userOp.sender)) {
+      issues.push({
+        code: "INVALID_SENDER",
+        message: `Cached nullifier was recorded for ${state.gasData.sender}, not the sender`,
+        expected: toBigInt(userOp.sender),
+        actual: toBigInt(state.gasData.sender),
+      });
+    }
+  }
+
+  if (variant === "gasLimited" && state.gasData && state.maxGasPerUserPerEpoch !== undefined) {
+    const gasUsed = state.gasData.gasUsed + requiredPrefund;
+    if (gasUsed > state.maxGasPerUserPerEpoch) {
+      issues.push({
+        code: "GAS_LIMIT_EXCEEDED",
+        message: "Gas used plus the required prefund exceeds maxGasPerUserPerEpoch",
+        expected: state.maxGasPerUserPerEpoch,
+        actual: gasUsed,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Pre-flight check of a sponsored operation against on-chain state, so the
+ * reason for a rejection is known before it is sent to the bundler.
+ */
+export async function validateUserOperation(
+  provider: Provider,
+  variant: PaymasterVariant,
+  userOp: UserOperation,
+): Promise<ValidationIssue[]> {
+  try {
+    decodeOperation(variant, userOp);
+  } catch (error) {
+    return [malformedPaymasterData(error)];
+  }
+
+  return checkUserOperation(variant, userOp, await readValidationState(provider, variant, userOp));
+}
+
+/**
+ * Runs the pre-flight checks for an operation the bundler rejected with AA33
+ * or AA34 and keeps the failing ones on the error, so it names the exact
+ * paymaster check instead of every check that returns a failed validation.
+ */
+export async function diagnoseUserOperationError(
+  provider: Provider,
+  variant: PaymasterVariant,
+  userOp: UserOperation,
+  error: unknown,
+): Promise<UserOperationError> {
+  const userOpError = parseUserOperationError(error);
+
+  if (userOpError.code !== "AA33" && userOpError.code !== "AA34") {
+    return userOpError;
+  }
+
+  const issues = (await validateUserOperation(provider, variant, userOp)).filter((issue) =>
+    userOpError.checks.includes(issue.code),
+  );
+
+  if (issues.length > 0) {
+    userOpError.issues = issues;
+    userOpError.checks = [...new Set(issues.map((issue) => issue.code))];
+  }
+
+  return userOpError;
+}
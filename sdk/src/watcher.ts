@@ -0,0 +1,228 @@
+import { appendFile } from "fs/promises";
+import { BigNumberish, Contract, Interface, Provider, toBigInt } from "ethers";
+import { ENTRY_POINT_ABI, GROUP_DEPOSITS_ABI } from "./abis";
+import { unpackUserOp } from "./inspect";
+import { PackedUserOperation } from "./types";
+import { getRequiredPrefund } from "./gas";
+import { sleep } from "./userOp";
+
+export type LowBalanceAlert = {
+  paymaster: string;
+  groupId: bigint;
+  groupDeposit: bigint;
+  worstCasePrefund: bigint;
+  /** Number of worst-case operations the group deposit still covers */
+  runway: bigint;
+  minRunway: bigint;
+  timestamp: number;
+};
+
+/**
+ * Destination for low-balance alerts.
+ */
+export type AlertSink = {
+  send: (alert: LowBalanceAlert) => void | Promise<void>;
+};
+
+export type BalanceWatcherConfig = {
+  paymasterAddress: string;
+  groupIds: BigNumberish[];
+  /** Alert when a group can pay for fewer than this many worst-case operations */
+  minRunway: BigNumberish;
+  sinks: AlertSink[];
+  /** Prefund assumed while no recent operation is found */
+  defaultPrefund: BigNumberish;
+  /** How many blocks back to look for recent operations */
+  lookbackBlocks?: number;
+  pollingInterval?: number;
+  onError?: (error: unknown) => void;
+};
+
+export type BalanceWatcher = {
+  stop: () => Promise<void>;
+};
+
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+function serializeAlert(alert: LowBalanceAlert): string {
+  return JSON.stringify(alert, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+export function createStdoutSink(): AlertSink {
+  return {
+    send: (alert) =>
+      console.log(
+        `[${new Date(alert.timestamp).toISOString()}] group ${alert.groupId} on ${alert.paymaster} ` +
+          `has ${alert.runway} operations of runway left (minimum ${alert.minRunway})`,
+      ),
+  };
+}
+
+/**
+ * Posts each alert as JSON to the given URL.
+ */
+export function createWebhookSink(url: string): AlertSink {
+  return {
+    send: async (alert) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: serializeAlert(alert),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook ${url} responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Appends each alert to a file as one JSON object per line.
+ */
+export function createJsonFileSink(path: string): AlertSink {
+  return {
+    send: (alert) => appendFile(path, serializeAlert(alert) + "\n"),
+  };
+}
+
+/**
+ * Highest prefund required by the paymaster's operations in recent blocks,
+ * read from the handleOps calldata of the bundles that included them.
+ */
+export async function estimateWorstCasePrefund(
+  provider: Provider,
+  paymasterAddress: string,
+  lookbackBlocks = 1000,
+): Promise<bigint | undefined> {
+  const paymaster = new Contract(paymasterAddress, GROUP_DEPOSITS_ABI, provider);
+  const entryPoint = new Contract(await paymaster.entryPoint(), ENTRY_POINT_ABI, provider);
+  const latestBlock = await provider.getBlockNumber();
+
+  const events = await entryPoint.queryFilter(
+    entryPoint.filters.UserOperationEvent(null, null, paymasterAddress),
+    Math.max(0, latestBlock - lookbackBlocks),
+    latestBlock,
+  );
+
+  let worstCase: bigint | undefined;
+
+  for (const txHash of new Set(events.map((event) => event.transactionHash))) {
+    const tx = await provider.getTransaction(txHash);
+    const parsed = tx && entryPointInterface.parseTransaction({ data: tx.data });
+
+    if (parsed?.name !== "handleOps") {
+      continue;
+    }
+
+    for (const op of parsed.args.ops as PackedUserOperation[]) {
+      const userOp = unpackUserOp(op);
+      if (userOp.paymaster?.toLowerCase() !== paymasterAddress.toLowerCase()) {
+        continue;
+      }
+
+      const prefund = getRequiredPrefund(userOp);
+      if (worstCase === undefined || prefund > worstCase) {
+        worstCase = prefund;
+      }
+    }
+  }
+
+  return worstCase;
+}
+
+/**
+ * One pass over the configured groups, sending an alert to every sink when a
+ * group drops below minRunway operations. A group is alerted once per sink
+ * until its deposit recovers; a sink that failed gets the alert again on the
+ * next pass. Errors of a group or sink go to onError without stopping the
+ * pass, so the other groups are still checked.
+ */
+export function createBalancePoll(provider: Provider, config: BalanceWatcherConfig): () => Promise<void> {
+  const paymaster = new Contract(config.paymasterAddress, GROUP_DEPOSITS_ABI, provider);
+  const defaultPrefund = toBigInt(config.defaultPrefund);
+  const minRunway = toBigInt(config.minRunway);
+  // Sinks each group's current alert was delivered to
+  const alerted = new Map<bigint, Set<AlertSink>>();
+
+  if (defaultPrefund <= 0n) {
+    throw new Error("defaultPrefund must be greater than zero");
+  }
+
+  const checkGroup = async (groupId: bigint, worstCasePrefund: bigint) => {
+    const groupDeposit: bigint = await paymaster.groupDeposits(groupId);
+    const runway = groupDeposit / worstCasePrefund;
+
+    if (runway >= minRunway) {
+      alerted.delete(groupId);
+      return;
+    }
+
+    const delivered = alerted.get(groupId) ?? new Set<AlertSink>();
+    alerted.set(groupId, delivered);
+
+    const sinks = config.sinks.filter((sink) => !delivered.has(sink));
+    if (sinks.length === 0) {
+      return;
+    }
+
+    const alert: LowBalanceAlert = {
+      paymaster: config.paymasterAddress,
+      groupId,
+      groupDeposit,
+      worstCasePrefund,
+      runway,
+      minRunway,
+      timestamp: Date.now(),
+    };
+    const results = await Promise.allSettled(sinks.map(async (sink) => sink.send(alert)));
+
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        delivered.add(sinks[i]);
+      } else {
+        config.onError?.(result.reason);
+      }
+    });
+  };
+
+  return async () => {
+    const estimatedPrefund = await estimateWorstCasePrefund(provider, config.paymasterAddress, config.lookbackBlocks);
+    const worstCasePrefund = estimatedPrefund ? estimatedPrefund : defaultPrefund;
+
+    for (const groupId of config.groupIds.map((id) => toBigInt(id))) {
+      try {
+        await checkGroup(groupId, worstCasePrefund);
+      } catch (error) {
+        config.onError?.(error);
+      }
+    }
+  };
+}
+
+/**
+ * Runs createBalancePoll every pollingInterval until stopped.
+ */
+export function startBalanceWatcher(provider: Provider, config: BalanceWatcherConfig): BalanceWatcher {
+  const poll = createBalancePoll(provider, config);
+  let running = true;
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        await poll();
+      } catch (error) {
+        config.onError?.(error);
+      }
+
+      await sleep(config.pollingInterval ?? 15000);
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    },
+  };
+}
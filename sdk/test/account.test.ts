@@ -0,0 +1,45 @@
+import { expect } from "chai";
+import { Interface, zeroPadValue } from "ethers";
+import { encodeSimpleAccountFactoryData, getCounterfactualAccount, SIMPLE_ACCOUNT_FACTORY_ABI } from "../src";
+import { sender } from "./fixtures";
+import { createMockProvider } from "./mockProvider";
+
+describe("account", () => {
+  const factoryAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const salt = zeroPadValue("0x2a", 32);
+
+  const provider = (code: string) =>
+    createMockProvider(
+      SIMPLE_ACCOUNT_FACTORY_ABI,
+      {
+        computeAddress: (value: string) => {
+          expect(value).to.equal(salt);
+          return sender;
+        },
+      },
+      { getCode: async () => code },
+    );
+
+  it("should deploy an account without code through the factory", async () => {
+    const account = await getCounterfactualAccount(provider("0x"), factoryAddress, salt);
+
+    expect(account).to.deep.equal({
+      sender,
+      deployed: false,
+      factoryParams: { factory: factoryAddress, factoryData: encodeSimpleAccountFactoryData(salt) },
+    });
+    expect(
+      new Interface(SIMPLE_ACCOUNT_FACTORY_ABI).decodeFunctionData(
+        "createSimpleAccount",
+        account.factoryParams.factoryData!,
+      )[0],
+    ).to.equal(salt);
+  });
+
+  it("should leave the factory fields empty once the account is deployed", async () => {
+    const account = await getCounterfactualAccount(provider("0x6080"), factoryAddress, salt);
+
+    expect(account.deployed).to.be.true;
+    expect(account.factoryParams).to.deep.equal({ factory: "0x", factoryData: "0x" });
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createArtifactManifest, createArtifactStore, getArtifactPath, openArtifactStore } from "../src";
+
+describe("artifacts", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "semaphore-artifacts-"));
+    await writeFile(getArtifactPath(directory, 1, "wasm"), Uint8Array.from([1, 2, 3]));
+    await writeFile(getArtifactPath(directory, 1, "zkey"), Uint8Array.from([4, 5, 6]));
+  });
+
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it("should load pinned artifacts once and keep them in memory", async () => {
+    const manifest = await createArtifactManifest(directory, [1]);
+    await writeFile(join(directory, "manifest.json"), JSON.stringify(manifest));
+    const store = await openArtifactStore(directory);
+
+    const artifacts = await store.load(1);
+    expect(artifacts).to.deep.equal({ wasm: Uint8Array.from([1, 2, 3]), zkey: Uint8Array.from([4, 5, 6]) });
+
+    // Later proofs don't read the directory again
+    await rm(getArtifactPath(directory, 1, "zkey"));
+    expect(await store.load(1)).to.equal(artifacts);
+
+    store.clear();
+    const error = await store.load(1).catch((error) => error);
+    expect(error.message).to.equal(
+      `Proof artifacts for tree depth 1 are missing: ${getArtifactPath(directory, 1, "zkey")} does not exist`,
+    );
+  });
+
+  it("should reject artifacts that differ from the manifest and depths it doesn't pin", async () => {
+    const manifest = await createArtifactManifest(directory, [1]);
+    await writeFile(getArtifactPath(directory, 1, "wasm"), Uint8Array.from([1, 2, 4]));
+    const store = createArtifactStore(directory, manifest);
+
+    const tampered = await store.load(1).catch((error) => error);
+    expect(tampered.message).to.match(/semaphore-1\.wasm has hash 0x[0-9a-f]{64}, the manifest pins 0x[0-9a-f]{64}$/);
+
+    const missing = await store.load(20).catch((error) => error);
+    expect(missing.message).to.equal(`No proof artifacts pinned for tree depth 20 in the manifest of ${directory}`);
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import { GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, readGasBudget } from "../src";
+import { sender } from "./fixtures";
+import { createMockProvider } from "./mockProvider";
+
+describe("budget", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+  const provider = (gasUsed: bigint, lastMerkleRoot: bigint, epoch: bigint) =>
+    createMockProvider(GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, {
+      gasData: () => [gasUsed, lastMerkleRoot, epoch, sender],
+      maxGasPerUserPerEpoch: () => 1000n,
+      getMerkleTreeRoot: () => 5n,
+      currentEpoch: () => 2n,
+    });
+
+  it("should report used and remaining gas", async () => {
+    const budget = await readGasBudget(provider(400n, 5n, 2n), paymaster, 3, 2, 22);
+
+    expect(budget.gasUsed).to.equal(400n);
+    expect(budget.gasRemaining).to.equal(600n);
+    expect(budget.cacheValid).to.equal(true);
+  });
+
+  it("should not report negative remaining gas", async () => {
+    const budget = await readGasBudget(provider(1200n, 5n, 2n), paymaster, 3, 2, 22);
+
+    expect(budget.gasRemaining).to.equal(0n);
+  });
+
+  it("should invalidate the cache when the root or epoch changed", async () => {
+    expect((await readGasBudget(provider(0n, 4n, 2n), paymaster, 3, 2, 22)).cacheValid).to.equal(false);
+    expect((await readGasBudget(provider(0n, 5n, 1n), paymaster, 3, 2, 22)).cacheValid).to.equal(false);
+  });
+
+  it("should invalidate the cache for another sender than the one it was recorded for", async () => {
+    expect((await readGasBudget(provider(0n, 5n, 2n), paymaster, 3, 2, 22, sender.toLowerCase())).cacheValid).to.equal(
+      true,
+    );
+    expect((await readGasBudget(provider(0n, 5n, 2n), paymaster, 3, 2, 22, paymaster)).cacheValid).to.equal(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import { AbiCoder, id, Interface } from "ethers";
+import {
+  createContractCall,
+  createErc20ApproveCall,
+  createErc20TransferCall,
+  createEthTransferCall,
+  encodeCalls,
+  encodeExecute,
+  ERC20_ABI,
+  SIMPLE_ACCOUNT_ABI,
+} from "../src";
+import { sender } from "./fixtures";
+
+describe("calls", () => {
+  const token = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const account = new Interface(SIMPLE_ACCOUNT_ABI);
+  const erc20 = new Interface(ERC20_ABI);
+
+  it("should encode a single ETH transfer as execute", () => {
+    const callData = encodeExecute(createEthTransferCall(sender, 5n));
+
+    expect(callData).to.equal(
+      id("execute(address,uint256,bytes)").slice(0, 10) +
+        AbiCoder.defaultAbiCoder().encode(["address", "uint256", "bytes"], [sender, 5n, "0x"]).slice(2),
+    );
+    expect(encodeCalls([createEthTransferCall(sender, 5n)])).to.equal(callData);
+  });
+
+  it("should encode several calls as executeBatch", () => {
+    const callData = encodeCalls([
+      createErc20ApproveCall(token, sender, 10n),
+      createErc20TransferCall(token, sender, 7n),
+    ]);
+    const [dest, value, func] = account.decodeFunctionData("executeBatch", callData);
+
+    expect(dest).to.deep.equal([token, token]);
+    // No call sends ETH, so the values are left out
+    expect(value).to.deep.equal([]);
+    expect(erc20.decodeFunctionData("approve", func[0])).to.deep.equal([sender, 10n]);
+    expect(erc20.decodeFunctionData("transfer", func[1])).to.deep.equal([sender, 7n]);
+  });
+
+  it("should pass the value of every call when one sends ETH", () => {
+    const callData = encodeCalls([
+      createContractCall(token, ["function deposit() payable"], "deposit", [], 3n),
+      createErc20TransferCall(token, sender, 7n),
+    ]);
+
+    expect(account.decodeFunctionData("executeBatch", callData)[1]).to.deep.equal([3n, 0n]);
+  });
+
+  it("should reject an empty batch", () => {
+    expect(() => encodeCalls([])).to.throw("No calls to encode");
+  });
+});
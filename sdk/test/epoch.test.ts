@@ -0,0 +1,35 @@
+import { expect } from "chai";
+import { computeEpoch, EpochState, selectProofEpoch } from "../src";
+
+describe("epoch", () => {
+  const state = (currentEpoch: bigint, wallClockEpoch: bigint): EpochState => ({
+    epochDuration: 60n,
+    firstEpochTimestamp: 1000n,
+    currentEpoch,
+    timestamp: 1000n + wallClockEpoch * 60n,
+    wallClockEpoch,
+    drift: wallClockEpoch - currentEpoch,
+  });
+
+  it("should compute the epoch like updateEpoch()", () => {
+    expect(computeEpoch(1000n, 1000n, 60n)).to.equal(0n);
+    expect(computeEpoch(1059n, 1000n, 60n)).to.equal(0n);
+    expect(computeEpoch(1060n, 1000n, 60n)).to.equal(1n);
+  });
+
+  it("should reject timestamps before the first epoch", () => {
+    expect(() => computeEpoch(999n, 1000n, 60n)).to.throw("The first epoch starts at 1000");
+  });
+
+  it("should use the stored epoch when it is current", () => {
+    expect(selectProofEpoch(state(3n, 3n))).to.deep.equal({ epoch: 3n, stale: false });
+  });
+
+  it("should warn when the stored epoch is behind", () => {
+    const proofEpoch = selectProofEpoch(state(1n, 3n));
+
+    expect(proofEpoch.epoch).to.equal(1n);
+    expect(proofEpoch.stale).to.equal(true);
+    expect(proofEpoch.warning).to.contain("updateEpoch()");
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { Interface, JsonRpcApiProvider, JsonRpcError, JsonRpcPayload, JsonRpcResult, Network } from "ethers";
+import {
+  diagnoseUserOperationError,
+  encodeSimplePaymasterData,
+  ENTRY_POINT_ABI,
+  generatePaymasterScope,
+  PAYMASTER_REVERT_ERRORS_ABI,
+  parseUserOperationError,
+  sendUserOpAndWait,
+  SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  UserOperation,
+  UserOperationError,
+} from "../src";
+import { proof, sender } from "./fixtures";
+import { createMockProvider } from "./mockProvider";
+
+/**
+ * Bundler answering every request with the same JSON-RPC error.
+ */
+class RejectingBundler extends JsonRpcApiProvider {
+  constructor(private readonly error: JsonRpcError["error"]) {
+    super(Network.from(1337), { staticNetwork: Network.from(1337) });
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<(JsonRpcResult | JsonRpcError)[]> {
+    return [payload].flat().map(({ id }) => ({ id, error: this.error }) as JsonRpcError | JsonRpcResult);
+  }
+}
+
+describe("errors", () => {
+  const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+  const paymasterInterface = new Interface(PAYMASTER_REVERT_ERRORS_ABI);
+
+  const userOp: UserOperation = {
+    sender,
+    nonce: 0,
+    callData: "0x",
+    callGasLimit: 100,
+    verificationGasLimit: 100,
+    preVerificationGas: 100,
+    maxFeePerGas: 2,
+    maxPriorityFeePerGas: 1,
+    paymaster: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    paymasterVerificationGasLimit: 100,
+    paymasterPostOpGasLimit: 100,
+    paymasterData: encodeSimplePaymasterData(3, proof),
+    signature: "0x",
+  };
+
+  it("should read the code from the bundler's error message", () => {
+    const error = parseUserOperationError(new Error("User operation rejected: FailedOp(0, AA34 signature error)"));
+
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.code).to.equal("AA34");
+    expect(error.reason).to.equal("AA34 signature error");
+    expect(error.checks).to.include("INSUFFICIENT_GROUP_DEPOSIT");
+
+    expect(parseUserOperationError({ message: "AA31 paymaster deposit too low" }).checks).to.deep.equal([
+      "PAYMASTER_DEPOSIT",
+    ]);
+    expect(parseUserOperationError("AA36 over paymasterVerificationGasLimit").code).to.equal("AA36");
+    expect(parseUserOperationError(new Error("AA23 reverted")).code).to.equal("SIMULATION_FAILED");
+  });
+
+  it("should decode FailedOpWithRevert data to the paymaster check", () => {
+    const inner = paymasterInterface.encodeErrorResult("Semaphore__MerkleTreeRootIsExpired");
+    const data = entryPointInterface.encodeErrorResult("FailedOpWithRevert", [0, "AA33 reverted", inner]);
+    const error = parseUserOperationError({ error: { code: -32500, message: "execution reverted", data } });
+
+    expect(error.code).to.equal("AA33");
+    expect(error.revertData).to.equal(inner);
+    expect(error.revertName).to.equal("Semaphore__MerkleTreeRootIsExpired");
+    expect(error.checks).to.deep.equal(["STALE_MERKLE_ROOT"]);
+  });
+
+  it("should throw a typed error when the bundler rejects the operation", async () => {
+    const bundler = new RejectingBundler({ code: -32500, message: "FailedOp(0, AA34 signature error)" });
+
+    const error = await sendUserOpAndWait(userOp, userOp.paymaster!, bundler).catch((error) => error);
+
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.code).to.equal("AA34");
+    bundler.destroy();
+  });
+
+  it("should name the failing check of an AA34", async () => {
+    const provider = createMockProvider(
+      SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+      {
+        groupDeposits: () => 0n,
+        getMerkleTreeRoot: () => 11n,
+        verifyProof: () => true,
+      },
+      { getNetwork: async () => Network.from(1337) },
+    );
+    const scope = generatePaymasterScope(1337, userOp.paymaster!, 3);
+    const op = { ...userOp, paymasterData: encodeSimplePaymasterData(3, { ...proof, scope }) };
+
+    const error = await diagnoseUserOperationError(provider, "simple", op, new Error("AA34 signature error"));
+
+    expect(error.checks).to.deep.equal(["INSUFFICIENT_GROUP_DEPOSIT"]);
+    expect(error.issues![0].expected).to.equal(1000n);
+  });
+});
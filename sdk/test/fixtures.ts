@@ -0,0 +1,12 @@
+import { SemaphoreProofStruct } from "../src";
+
+export const sender = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+
+export const proof: SemaphoreProofStruct = {
+  merkleTreeDepth: 2n,
+  merkleTreeRoot: 11n,
+  nullifier: 22n,
+  message: BigInt(sender),
+  scope: 33n,
+  points: [1n, 2n, 3n, 4n, 5n, 6n, 7n, 8n],
+};
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { dataLength, JsonRpcProvider, Network, toBigInt } from "ethers";
+import {
+  applyGasMargin,
+  applyGasStrategy,
+  CACHED_PROOF_GAS_STRATEGY,
+  createSimplePaymasterClient,
+  decodeSimplePaymasterData,
+  encodeCachedPaymasterData,
+  encodeGasLimitedPaymasterData,
+  encodeSimplePaymasterData,
+  ENTRY_POINT_ABI,
+  FRESH_PROOF_GAS_STRATEGY,
+  generatePaymasterScope,
+  getUserOpHash,
+  reportGasUsage,
+  selectGasStrategy,
+  SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  UserOperation,
+  UserOperationReceipt,
+} from "../src";
+import { proof, sender } from "./fixtures";
+import { createMockProvider, EstimatingBundler } from "./mockProvider";
+
+describe("gas", () => {
+  const estimate = {
+    callGasLimit: 50000n,
+    verificationGasLimit: 60000n,
+    preVerificationGas: 50000n,
+    maxFeePerGas: 10n,
+    maxPriorityFeePerGas: 1n,
+  };
+
+  it("should apply the multiplier above the floor", () => {
+    expect(applyGasMargin(100n, { multiplier: 1.5 })).to.equal(150n);
+    expect(applyGasMargin(100n, { multiplier: 2, floor: 1000n })).to.equal(1000n);
+    expect(applyGasMargin(1000n, { multiplier: 2, floor: 1000n })).to.equal(2000n);
+  });
+
+  it("should size the operation with a strategy", () => {
+    const limits = applyGasStrategy(FRESH_PROOF_GAS_STRATEGY, estimate, 30000n);
+
+    expect(limits).to.deep.equal({
+      callGasLimit: 100000n,
+      verificationGasLimit: 1200000n,
+      preVerificationGas: 117144n,
+      paymasterVerificationGasLimit: 1200000n,
+      paymasterPostOpGasLimit: 1200000n,
+      maxFeePerGas: 20n,
+      maxPriorityFeePerGas: 2n,
+    });
+    expect(applyGasStrategy(CACHED_PROOF_GAS_STRATEGY, estimate).paymasterVerificationGasLimit).to.equal(200000n);
+  });
+
+  it("should pick the cached preset for cached paymaster data", () => {
+    expect(selectGasStrategy("cached", encodeCachedPaymasterData(3))).to.equal(CACHED_PROOF_GAS_STRATEGY);
+    expect(selectGasStrategy("cached", encodeCachedPaymasterData(3, proof))).to.equal(FRESH_PROOF_GAS_STRATEGY);
+    expect(selectGasStrategy("gasLimited", encodeGasLimitedPaymasterData(3, 22n))).to.equal(CACHED_PROOF_GAS_STRATEGY);
+    expect(selectGasStrategy("simple", encodeSimplePaymasterData(3, proof))).to.equal(FRESH_PROOF_GAS_STRATEGY);
+  });
+
+  it("should report the gas used against the limits", () => {
+    const userOp: UserOperation = {
+      sender,
+      nonce: 0,
+      callData: "0x",
+      callGasLimit: 100000,
+      verificationGasLimit: 100000,
+      preVerificationGas: 100000,
+      maxFeePerGas: 10,
+      maxPriorityFeePerGas: 1,
+      paymasterVerificationGasLimit: 150000,
+      paymasterPostOpGasLimit: 50000,
+      signature: "0x",
+    };
+
+    const report = reportGasUsage(userOp, { actualGasUsed: 125000n, actualGasCost: 1000000n } as UserOperationReceipt, {
+      ...estimate,
+      paymasterVerificationGasLimit: 40000n,
+    });
+
+    expect(report).to.deep.equal({
+      gasLimit: 500000n,
+      estimatedGas: 250000n,
+      actualGasUsed: 125000n,
+      unusedGas: 375000n,
+      usedPercent: 25,
+      requiredPrefund: 5000000n,
+      actualGasCost: 1000000n,
+      excessPrefund: 4000000n,
+    });
+  });
+
+  it("should estimate with placeholder paymaster data and sign the real operation", async () => {
+    const paymasterAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const entryPointAddress = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+    const bundler = new EstimatingBundler();
+    const provider = createMockProvider(
+      [...ENTRY_POINT_ABI, ...SIMPLE_SEMAPHORE_PAYMASTER_ABI],
+      { getNonce: () => 0n, getMerkleTreeRoot: () => 11n },
+      {
+        getFeeData: async () => ({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }),
+        getNetwork: async () => Network.from(1337),
+      },
+    ) as unknown as JsonRpcProvider;
+
+    const client = createSimplePaymasterClient({
+      paymasterAddress,
+      entryPointAddress,
+      provider,
+      bundlerProvider: bundler,
+    });
+    const realPaymasterData = encodeSimplePaymasterData(3, proof);
+
+    const userOp = await client.buildUserOperation({
+      sender,
+      callData: "0x",
+      groupId: 3,
+      generatePaymasterData: async () => realPaymasterData,
+      signUserOperation: async (userOpHash, op) => {
+        expect(op.paymasterData).to.equal(realPaymasterData);
+        return userOpHash;
+      },
+    });
+
+    const [estimated] = bundler.estimated;
+    const dummy = decodeSimplePaymasterData(estimated.paymasterData!);
+
+    expect(estimated.paymaster).to.equal(paymasterAddress);
+    expect(dataLength(estimated.paymasterData!)).to.equal(dataLength(realPaymasterData));
+    expect(dummy.proof).to.deep.include({
+      merkleTreeRoot: 11n,
+      message: BigInt(sender),
+      scope: toBigInt(generatePaymasterScope(1337, paymasterAddress, 3)),
+    });
+    expect(userOp.paymasterData).to.equal(realPaymasterData);
+    expect(userOp.signature).to.equal(getUserOpHash(userOp, entryPointAddress, 1337));
+
+    const error = await client
+      .buildUserOperation({
+        sender,
+        callData: "0x",
+        groupId: 3,
+        generatePaymasterData: async () => encodeCachedPaymasterData(3),
+      })
+      .catch((error) => error);
+
+    expect(error.message).to.equal("Paymaster data is 33 bytes, the operation was estimated with 448");
+    bundler.destroy();
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { Interface, toBeHex, zeroPadValue } from "ethers";
+import { Group } from "@semaphore-protocol/core";
+import { assertGroupInSync, checkGroupRoot, connectGroupAdmin, createGroup, SEMAPHORE_ABI } from "../src";
+import { createMockProvider, createMockSigner } from "./mockProvider";
+
+describe("groups", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const semaphoreInterface = new Interface(SEMAPHORE_ABI);
+
+  function decodeSent(data: unknown) {
+    return semaphoreInterface.parseTransaction({ data: String(data) })!;
+  }
+
+  it("should read the group ID from the GroupCreated event", async () => {
+    const { signer } = createMockSigner(createMockProvider(SEMAPHORE_ABI, {}), () => [
+      {
+        address: paymaster,
+        data: "0x",
+        topics: [semaphoreInterface.getEvent("GroupCreated")!.topicHash, zeroPadValue(toBeHex(7), 32)],
+        index: 0,
+        transactionIndex: 0,
+        removed: false,
+      },
+    ]);
+
+    expect(await createGroup(signer, paymaster)).to.equal(7n);
+  });
+
+  it("should add members in batches and mirror them locally", async () => {
+    const { signer, sent } = createMockSigner(createMockProvider(SEMAPHORE_ABI, {}));
+    const admin = connectGroupAdmin(signer, paymaster, 0);
+
+    const receipts = await admin.addMembers([1, 2, 3, 4, 5], 2);
+
+    expect(receipts).to.have.length(3);
+    expect(sent.map((tx) => decodeSent(tx.data).args.identityCommitments.toArray())).to.deep.equal([
+      [1n, 2n],
+      [3n, 4n],
+      [5n],
+    ]);
+    expect(admin.group.members).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+  });
+
+  it("should remove a member with the siblings of the local group", async () => {
+    const { signer, sent } = createMockSigner(createMockProvider(SEMAPHORE_ABI, {}));
+    const admin = connectGroupAdmin(signer, paymaster, 0, new Group([1n, 2n, 3n]));
+    const { siblings } = admin.group.generateMerkleProof(1);
+
+    await admin.removeMember(2);
+
+    const { name, args } = decodeSent(sent[0].data);
+    expect(name).to.equal("removeMember");
+    expect(args.merkleProofSiblings.toArray()).to.deep.equal(siblings);
+    expect(admin.group.members).to.deep.equal([1n, 0n, 3n]);
+  });
+
+  it("should not send an update for a commitment missing from the local group", async () => {
+    const { signer, sent } = createMockSigner(createMockProvider(SEMAPHORE_ABI, {}));
+    const admin = connectGroupAdmin(signer, paymaster, 0, new Group([1n]));
+
+    let error: unknown;
+    try {
+      await admin.updateMember(2, 3);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(String(error)).to.contain("not a member of the local group");
+    expect(sent).to.have.length(0);
+  });
+
+  it("should compare the local root with the paymaster root", async () => {
+    const group = new Group([1n, 2n]);
+    const inSync = createMockProvider(SEMAPHORE_ABI, { getMerkleTreeRoot: () => group.root });
+    const behind = createMockProvider(SEMAPHORE_ABI, { getMerkleTreeRoot: () => new Group([1n, 2n, 3n]).root });
+
+    expect((await checkGroupRoot(inSync, paymaster, 0, group)).inSync).to.equal(true);
+    expect((await checkGroupRoot(behind, paymaster, 0, group)).inSync).to.equal(false);
+
+    await assertGroupInSync(inSync, paymaster, 0, group);
+
+    let error: unknown;
+    try {
+      await assertGroupInSync(behind, paymaster, 0, group);
+    } catch (e) {
+      error = e;
+    }
+    expect(String(error)).to.contain("does not match the paymaster root");
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import { Filter, Interface, Log, Provider, zeroPadValue } from "ethers";
+import { Group } from "@semaphore-protocol/core";
+import {
+  buildGroup,
+  createMemoryStore,
+  deserializeIndexerState,
+  GroupEvent,
+  SEMAPHORE_ABI,
+  serializeIndexerState,
+  syncGroupEvents,
+} from "../src";
+import { createMockProvider } from "./mockProvider";
+
+describe("indexer", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const semaphoreInterface = new Interface(SEMAPHORE_ABI);
+  const rootAfter = (members: bigint[]) => new Group(members).root;
+
+  const position = (blockNumber: number, logIndex = 0) => ({
+    groupId: 0n,
+    blockNumber,
+    logIndex,
+    transactionHash: zeroPadValue("0x01", 32),
+  });
+
+  const events: GroupEvent[] = [
+    { ...position(1), type: "GroupCreated" },
+    {
+      ...position(2),
+      type: "MembersAdded",
+      startIndex: 0n,
+      identityCommitments: [1n, 2n, 3n],
+      merkleTreeRoot: rootAfter([1n, 2n, 3n]),
+    },
+    {
+      ...position(3),
+      type: "MemberUpdated",
+      index: 1n,
+      identityCommitment: 2n,
+      newIdentityCommitment: 4n,
+      merkleTreeRoot: rootAfter([1n, 4n, 3n]),
+    },
+    {
+      ...position(4),
+      type: "MemberRemoved",
+      index: 0n,
+      identityCommitment: 1n,
+      merkleTreeRoot: rootAfter([0n, 4n, 3n]),
+    },
+    {
+      ...position(5),
+      type: "MemberAdded",
+      index: 3n,
+      identityCommitment: 5n,
+      merkleTreeRoot: rootAfter([0n, 4n, 3n, 5n]),
+    },
+  ];
+
+  function toLog(event: GroupEvent, provider: Provider): Log {
+    const { groupId, blockNumber, logIndex, transactionHash, type, ...args } = event;
+    const fragment = semaphoreInterface.getEvent(type)!;
+    const { data, topics } = semaphoreInterface.encodeEventLog(
+      fragment,
+      fragment.inputs.map((input) => (input.name === "groupId" ? groupId : args[input.name as keyof typeof args])),
+    );
+
+    return new Log(
+      {
+        transactionHash,
+        blockHash: zeroPadValue("0x01", 32),
+        blockNumber,
+        removed: false,
+        address: paymaster,
+        data,
+        topics,
+        index: logIndex,
+        transactionIndex: 0,
+      },
+      provider,
+    );
+  }
+
+  it("should rebuild a group from its events", () => {
+    expect(buildGroup(events, 0).members).to.deep.equal([0n, 4n, 3n, 5n]);
+    expect(buildGroup(events, 1).size).to.equal(0);
+  });
+
+  it("should rebuild a group at a past block", () => {
+    expect(buildGroup(events, 0, 3).members).to.deep.equal([1n, 4n, 3n]);
+  });
+
+  it("should throw when the events skip a change", () => {
+    expect(() =>
+      buildGroup(
+        events.filter((event) => event.type !== "MemberUpdated"),
+        0,
+      ),
+    ).to.throw("but the contract emitted");
+    expect(() => buildGroup(events.slice(2), 0, 4)).to.throw("Group 0 is missing members");
+  });
+
+  it("should keep bigints through serialization", () => {
+    const state = { paymasterAddress: paymaster, lastIndexedBlock: 5, events };
+
+    expect(deserializeIndexerState(serializeIndexerState(state))).to.deep.equal(state);
+  });
+
+  it("should sync incrementally from the last indexed block", async () => {
+    const requests: Filter[] = [];
+    let latestBlock = 3;
+
+    const provider: Provider = createMockProvider(
+      SEMAPHORE_ABI,
+      {},
+      {
+        getBlockNumber: async () => latestBlock,
+        getLogs: async (filter: Filter) => {
+          requests.push(filter);
+          return events
+            .filter(
+              (event) => event.blockNumber >= Number(filter.fromBlock) && event.blockNumber <= Number(filter.toBlock),
+            )
+            .map((event) => toLog(event, provider));
+        },
+      },
+    );
+    const store = createMemoryStore();
+
+    const first = await syncGroupEvents(provider, paymaster, store, { fromBlock: 1, blockRange: 2 });
+    expect(first.newEvents).to.deep.equal(events.slice(0, 3));
+    expect(requests.map(({ fromBlock, toBlock }) => [fromBlock, toBlock])).to.deep.equal([
+      [1, 2],
+      [3, 3],
+    ]);
+
+    latestBlock = 5;
+    const second = await syncGroupEvents(provider, paymaster, store, { fromBlock: 1 });
+    expect(second.fromBlock).to.equal(4);
+    expect(second.newEvents).to.deep.equal(events.slice(3));
+    expect(buildGroup(second.state.events, 0).members).to.deep.equal([0n, 4n, 3n, 5n]);
+  });
+});
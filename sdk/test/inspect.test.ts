@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { hexlify } from "ethers";
+import {
+  encodeCachedPaymasterData,
+  encodeExcubiaeEvidence,
+  encodeExcubiaePaymasterData,
+  encodeGasLimitedPaymasterData,
+  encodeSimplePaymasterData,
+  inspectPaymasterAndData,
+  inspectUserOperation,
+  packPaymasterData,
+  packUserOp,
+  unpackPaymasterAndData,
+  unpackUserOp,
+} from "../src";
+import { proof } from "./fixtures";
+
+describe("inspect", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const pack = (paymasterData: string) => hexlify(packPaymasterData(paymaster, 300000, 100000, paymasterData));
+
+  it("should unpack the paymaster address and gas limits", () => {
+    const unpacked = unpackPaymasterAndData(pack("0x1234"));
+
+    expect(unpacked).to.deep.equal({
+      paymaster,
+      paymasterVerificationGasLimit: 300000n,
+      paymasterPostOpGasLimit: 100000n,
+      paymasterData: "0x1234",
+    });
+  });
+
+  it("should match the simple proof tuple layout", () => {
+    const inspection = inspectPaymasterAndData(pack(encodeSimplePaymasterData(3, proof)));
+
+    expect(inspection.layout).to.equal("proofTuple");
+    expect(inspection.contracts).to.deep.equal(["SimpleSemaphorePaymaster"]);
+    expect(inspection.groupId).to.equal(3n);
+    expect(inspection.proof).to.deep.equal(proof);
+  });
+
+  it("should match the excubiae evidence layout", () => {
+    const inspection = inspectPaymasterAndData(pack(encodeExcubiaePaymasterData(3, encodeExcubiaeEvidence(proof))));
+
+    expect(inspection.layout).to.equal("evidenceBytes");
+    expect(inspection.contracts).to.deep.equal(["ExcubiaeSemaphorePaymaster"]);
+    expect(inspection.proof).to.deep.equal(proof);
+  });
+
+  it("should tell the cached forms of the flag layout apart", () => {
+    const cached = inspectPaymasterAndData(pack(encodeCachedPaymasterData(3)));
+    const gasLimited = inspectPaymasterAndData(pack(encodeGasLimitedPaymasterData(3, proof.nullifier)));
+
+    expect(cached.contracts).to.deep.equal(["CachedSemaphorePaymaster"]);
+    expect(cached.useCache).to.equal(true);
+    expect(gasLimited.contracts).to.deep.equal(["GasLimitedSemaphorePaymaster"]);
+    expect(gasLimited.nullifier).to.equal(22n);
+  });
+
+  it("should report both flag layout contracts for a fresh proof", () => {
+    const inspection = inspectPaymasterAndData(pack(encodeCachedPaymasterData(3, proof)));
+
+    expect(inspection.layout).to.equal("cacheFlag");
+    expect(inspection.contracts).to.deep.equal(["CachedSemaphorePaymaster", "GasLimitedSemaphorePaymaster"]);
+    expect(inspection.useCache).to.equal(false);
+    expect(inspection.nullifier).to.equal(22n);
+  });
+
+  it("should inspect an unpacked user operation", () => {
+    const inspection = inspectUserOperation({
+      paymaster,
+      paymasterVerificationGasLimit: "0x493e0",
+      paymasterPostOpGasLimit: "0x186a0",
+      paymasterData: encodeCachedPaymasterData(3),
+    });
+
+    expect(inspection.paymasterVerificationGasLimit).to.equal(300000n);
+    expect(inspection.groupId).to.equal(3n);
+  });
+
+  it("should unpack a packed user operation", () => {
+    const userOp = {
+      sender: paymaster,
+      nonce: 3n,
+      callData: "0x1234",
+      callGasLimit: 10n,
+      verificationGasLimit: 20n,
+      preVerificationGas: 30n,
+      maxFeePerGas: 40n,
+      maxPriorityFeePerGas: 50n,
+      paymaster,
+      paymasterVerificationGasLimit: 60n,
+      paymasterPostOpGasLimit: 70n,
+      paymasterData: encodeCachedPaymasterData(3),
+      signature: "0xabcd",
+    };
+
+    expect(unpackUserOp(packUserOp(userOp))).to.deep.equal(userOp);
+  });
+
+  it("should reject unknown layouts", () => {
+    expect(() => inspectPaymasterAndData(pack("0x1234"))).to.throw("does not match any known paymaster layout");
+  });
+});
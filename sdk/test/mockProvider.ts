@@ -0,0 +1,140 @@
+import {
+  Interface,
+  JsonRpcApiProvider,
+  JsonRpcApiProviderOptions,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcResult,
+  Network,
+  LogParams,
+  Provider,
+  Signer,
+  toBeHex,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  TransactionResponseParams,
+  ZeroAddress,
+  zeroPadValue,
+} from "ethers";
+import { UserOperation } from "../src";
+
+type Handler = (...args: any[]) => unknown;
+
+/**
+ * Minimal provider answering eth_call from per-function handlers, enough to
+ * back read-only ethers Contracts in tests. Handlers get the decoded arguments
+ * followed by the call itself, for its blockTag. Other provider methods can be
+ * passed in overrides.
+ */
+export function createMockProvider(
+  abi: string[],
+  handlers: Record<string, Handler>,
+  overrides: Record<string, unknown> = {},
+): Provider {
+  const iface = new Interface(abi);
+
+  const provider = {
+    call: async (tx: TransactionRequest) => {
+      const fragment = iface.getFunction(String(tx.data).slice(0, 10));
+      if (!fragment || !handlers[fragment.name]) {
+        throw new Error(`No handler for ${fragment?.name ?? tx.data}`);
+      }
+
+      const args = iface.decodeFunctionData(fragment, String(tx.data));
+      const result = handlers[fragment.name](...args, tx);
+      return iface.encodeFunctionResult(fragment, Array.isArray(result) ? result : [result]);
+    },
+    ...overrides,
+  } as unknown as Provider & { provider: Provider };
+
+  // Contracts look up the provider of their runner for logs
+  provider.provider = provider;
+
+  return provider;
+}
+
+/**
+ * Signer that records the transactions it is asked to send and mines each one
+ * straight away, with the logs returned by getLogs for that transaction.
+ */
+export function createMockSigner(
+  provider: Provider,
+  getLogs: (tx: TransactionRequest) => Omit<LogParams, "transactionHash" | "blockHash" | "blockNumber">[] = () => [],
+) {
+  const sent: TransactionRequest[] = [];
+  const receipts: Record<string, TransactionReceipt> = {};
+  const mockProvider = provider as Provider & Record<string, unknown>;
+
+  mockProvider.getTransactionReceipt = async (hash: string) => receipts[hash] ?? null;
+  mockProvider.getBlockNumber = async () => sent.length;
+
+  const signer = {
+    provider,
+    getAddress: async () => ZeroAddress,
+    sendTransaction: async (tx: TransactionRequest) => {
+      sent.push(tx);
+      const hash = zeroPadValue(toBeHex(sent.length), 32);
+      const blockHash = zeroPadValue("0x01", 32);
+      const blockNumber = sent.length;
+
+      receipts[hash] = new TransactionReceipt(
+        {
+          to: String(tx.to),
+          from: ZeroAddress,
+          contractAddress: null,
+          hash,
+          index: 0,
+          blockHash,
+          blockNumber,
+          logsBloom: "0x",
+          gasUsed: 0n,
+          blobGasUsed: null,
+          cumulativeGasUsed: 0n,
+          gasPrice: 0n,
+          blobGasPrice: null,
+          type: 2,
+          status: 1,
+          root: null,
+          logs: getLogs(tx).map((log) => ({ ...log, transactionHash: hash, blockHash, blockNumber })),
+        },
+        provider,
+      );
+
+      return new TransactionResponse(
+        { ...tx, hash, blockNumber: null, blockHash: null, from: ZeroAddress, nonce: 0 } as TransactionResponseParams,
+        provider,
+      );
+    },
+  } as unknown as Signer;
+
+  return { signer, sent };
+}
+
+/**
+ * Bundler recording the operations it estimates, answering with a fixed estimate.
+ */
+export class EstimatingBundler extends JsonRpcApiProvider {
+  readonly estimated: Partial<UserOperation>[] = [];
+
+  constructor(options: JsonRpcApiProviderOptions = { staticNetwork: Network.from(1337) }) {
+    super(Network.from(1337), options);
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<(JsonRpcResult | JsonRpcError)[]> {
+    return [payload].flat().map(({ id, params }) => {
+      const [userOp] = params as [Partial<UserOperation>];
+      this.estimated.push(userOp);
+
+      return {
+        id,
+        result: {
+          callGasLimit: "0x1000",
+          verificationGasLimit: "0x1000",
+          preVerificationGas: "0x1000",
+          paymasterVerificationGasLimit: "0x1000",
+        },
+      };
+    });
+  }
+}
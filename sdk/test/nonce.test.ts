@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { JsonRpcProvider } from "ethers";
+import {
+  createNonceManager,
+  createSimplePaymasterClient,
+  decodeNonce,
+  encodeNonce,
+  ENTRY_POINT_ABI,
+  getFeeData,
+  SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+} from "../src";
+import { sender } from "./fixtures";
+import { createMockProvider, EstimatingBundler } from "./mockProvider";
+
+describe("nonce", () => {
+  const entryPointAddress = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+  // Every key starts at sequence 10, so the first nonce is not the same in hex and decimal
+  const createProvider = (reads: bigint[] = []) =>
+    createMockProvider(ENTRY_POINT_ABI, {
+      getNonce: (_sender: string, key: bigint) => {
+        reads.push(key);
+        return encodeNonce(key, 10);
+      },
+    });
+
+  it("should split a nonce into its key and sequence", () => {
+    const nonce = encodeNonce(3, 7);
+
+    expect(nonce).to.equal((3n << 64n) | 7n);
+    expect(decodeNonce(nonce)).to.deep.equal({ key: 3n, sequence: 7n });
+    expect(() => encodeNonce(1n << 192n, 0)).to.throw(`Nonce key ${1n << 192n} does not fit in 192 bits`);
+    expect(() => encodeNonce(0, 1n << 64n)).to.throw(`Nonce sequence ${1n << 64n} does not fit in 64 bits`);
+  });
+
+  it("should hand out consecutive nonces on a key and a free key otherwise", async () => {
+    const reads: bigint[] = [];
+    const manager = createNonceManager(createProvider(reads), entryPointAddress);
+
+    const nonces = await Promise.all([manager.acquire(sender, 0), manager.acquire(sender, 0)]);
+    const parallel = await manager.acquire(sender);
+
+    expect(nonces).to.deep.equal([encodeNonce(0, 10), encodeNonce(0, 11)]);
+    expect(parallel).to.equal(encodeNonce(1, 10));
+    expect(manager.inFlightKeys(sender)).to.deep.equal([0n, 1n]);
+    expect(reads).to.deep.equal([0n, 1n]);
+  });
+
+  it("should give back a dropped nonce and read the chain again once a key is idle", async () => {
+    const reads: bigint[] = [];
+    const manager = createNonceManager(createProvider(reads), entryPointAddress);
+
+    const first = await manager.acquire(sender, 0);
+    const dropped = await manager.acquire(sender, 0);
+    manager.release(sender, dropped, false);
+
+    expect(await manager.acquire(sender, 0)).to.equal(dropped);
+
+    manager.release(sender, first);
+    manager.release(sender, dropped);
+
+    expect(manager.inFlightKeys(sender)).to.deep.equal([]);
+    expect(await manager.acquire(sender)).to.equal(encodeNonce(0, 10));
+    expect(reads).to.deep.equal([0n, 0n]);
+  });
+
+  it("should send the nonce of the key and the fees as hex quantities", async () => {
+    const bundler = new EstimatingBundler();
+    const provider = createMockProvider(
+      [...ENTRY_POINT_ABI, ...SIMPLE_SEMAPHORE_PAYMASTER_ABI],
+      { getNonce: (_sender: string, key: bigint) => encodeNonce(key, 10) },
+      { getFeeData: async () => ({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }) },
+    ) as unknown as JsonRpcProvider;
+
+    const client = createSimplePaymasterClient({
+      paymasterAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      entryPointAddress,
+      provider,
+      bundlerProvider: bundler,
+    });
+
+    const userOp = await client.createUserOperation({ sender, callData: "0x", paymasterData: "0x", nonceKey: 2 });
+    const [estimated] = bundler.estimated;
+
+    expect(estimated.nonce).to.equal("0x2000000000000000a");
+    expect(await getFeeData(provider)).to.deep.equal({ maxFeePerGas: "0xa", maxPriorityFeePerGas: "0x1" });
+    expect(userOp.nonce).to.equal(estimated.nonce);
+    bundler.destroy();
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import { keccak256, toBeHex, toBigInt } from "ethers";
+import { Group, Identity } from "@semaphore-protocol/core";
+import { poseidon2 } from "poseidon-lite/poseidon2";
+import {
+  decodeGasLimitedPaymasterData,
+  deriveGasLimitedNullifier,
+  deriveNullifier,
+  generateGasLimitedPaymasterData,
+  generateGasLimitedScope,
+  hashScope,
+} from "../src";
+
+describe("nullifier", () => {
+  const identity = new Identity("0x0123456789012345678901234567890123456789012345678901234567890123");
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+  it("should hash the scope and the secret scalar like the circuit", () => {
+    const scope = generateGasLimitedScope(1337, paymaster, 3, 7);
+
+    expect(hashScope(5)).to.equal(toBigInt(keccak256(toBeHex(5, 32))) >> 8n);
+    expect(deriveNullifier(identity, scope)).to.equal(poseidon2([hashScope(scope), identity.secretScalar]));
+    expect(deriveGasLimitedNullifier(identity, 1337, paymaster, 3, 7)).to.equal(deriveNullifier(identity, scope));
+    expect(deriveNullifier(identity, scope)).to.not.equal(deriveNullifier(new Identity(), scope));
+  });
+
+  it("should encode the cached gas limited form without generating a proof", async () => {
+    const generateProof = () => Promise.reject(new Error("No proof expected"));
+
+    const { paymasterData, nullifier } = await generateGasLimitedPaymasterData(
+      identity,
+      new Group([identity.commitment]),
+      0n,
+      3,
+      7,
+      1337,
+      paymaster,
+      true,
+      generateProof,
+    );
+
+    expect(nullifier).to.equal(deriveGasLimitedNullifier(identity, 1337, paymaster, 3, 7).toString());
+    expect(decodeGasLimitedPaymasterData(paymasterData)).to.deep.equal({
+      useCache: true,
+      groupId: 3n,
+      nullifier: BigInt(nullifier),
+    });
+  });
+});
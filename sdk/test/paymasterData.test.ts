@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { AbiCoder, concat, dataLength } from "ethers";
+import {
+  createDummyPaymasterData,
+  createDummyProof,
+  decodeCachedPaymasterData,
+  decodeExcubiaePaymasterData,
+  decodeGasLimitedPaymasterData,
+  decodeSimplePaymasterData,
+  encodeCachedPaymasterData,
+  encodeExcubiaeEvidence,
+  encodeExcubiaePaymasterData,
+  encodeGasLimitedPaymasterData,
+  encodeSimplePaymasterData,
+} from "../src";
+import { proof } from "./fixtures";
+
+describe("paymasterData", () => {
+  const abiCoder = AbiCoder.defaultAbiCoder();
+  const groupId = 7;
+
+  it("should round-trip the simple layout", () => {
+    const decoded = decodeSimplePaymasterData(encodeSimplePaymasterData(groupId, proof));
+
+    expect(decoded.groupId).to.equal(7n);
+    expect(decoded.proof).to.deep.equal(proof);
+  });
+
+  it("should encode the cached layout with a flag byte", () => {
+    const fresh = encodeCachedPaymasterData(groupId, proof);
+    const cached = encodeCachedPaymasterData(groupId);
+
+    expect(fresh.slice(0, 4)).to.equal("0x00");
+    expect(cached).to.equal(concat(["0x01", abiCoder.encode(["uint256"], [groupId])]));
+    expect(decodeCachedPaymasterData(fresh)).to.deep.equal({ useCache: false, groupId: 7n, proof });
+    expect(decodeCachedPaymasterData(cached)).to.deep.equal({ useCache: true, groupId: 7n });
+  });
+
+  it("should carry the nullifier in the cached gas limited layout", () => {
+    const cached = encodeGasLimitedPaymasterData(groupId, proof.nullifier);
+
+    expect(dataLength(cached)).to.equal(65);
+    expect(decodeGasLimitedPaymasterData(cached)).to.deep.equal({ useCache: true, groupId: 7n, nullifier: 22n });
+    expect(decodeGasLimitedPaymasterData(encodeGasLimitedPaymasterData(groupId, proof)).proof).to.deep.equal(proof);
+  });
+
+  it("should round-trip the excubiae layout", () => {
+    const evidence = encodeExcubiaeEvidence(proof);
+    const decoded = decodeExcubiaePaymasterData(encodeExcubiaePaymasterData(groupId, evidence));
+
+    expect(decoded.groupId).to.equal(7n);
+    expect(decoded.evidence).to.equal(evidence);
+    expect(decoded.proof).to.deep.equal(proof);
+  });
+
+  it("should size placeholder paymaster data like the real layouts", () => {
+    const real = {
+      simple: encodeSimplePaymasterData(groupId, proof),
+      cached: encodeCachedPaymasterData(groupId, proof),
+      gasLimited: encodeGasLimitedPaymasterData(groupId, proof),
+      excubiae: encodeExcubiaePaymasterData(groupId, encodeExcubiaeEvidence(proof)),
+    };
+
+    for (const [variant, data] of Object.entries(real)) {
+      const dummy = createDummyPaymasterData(variant as keyof typeof real, { groupId });
+      expect(dataLength(dummy), variant).to.equal(dataLength(data));
+    }
+
+    expect(dataLength(createDummyPaymasterData("cached", { groupId, useCache: true }))).to.equal(33);
+    expect(
+      decodeGasLimitedPaymasterData(createDummyPaymasterData("gasLimited", { groupId, useCache: true, proof })),
+    ).to.deep.equal({ useCache: true, groupId: 7n, nullifier: 22n });
+  });
+
+  it("should keep the known fields of the placeholder proof", () => {
+    const dummy = createDummyProof({ message: proof.message, merkleTreeRoot: 11n });
+
+    expect(dummy.message).to.equal(proof.message);
+    expect(dummy.merkleTreeRoot).to.equal(11n);
+    expect(dummy.points).to.have.length(8);
+  });
+
+  it("should reject an unknown cache flag", () => {
+    const data = concat(["0x02", abiCoder.encode(["uint256"], [groupId])]);
+
+    expect(() => decodeCachedPaymasterData(data)).to.throw("Unknown cache flag 0x02");
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { Group, Identity, SemaphoreProof } from "@semaphore-protocol/core";
+import { createProofCache, createProofPool, ProofGenerator } from "../src";
+
+describe("prover", () => {
+  const identity = new Identity("0x0123456789012345678901234567890123456789012345678901234567890123");
+  const group = new Group([identity.commitment, new Identity().commitment]);
+
+  it("should reuse a member's proof for the same root, scope and message", async () => {
+    const calls: bigint[] = [];
+    const generate: ProofGenerator = async (_identity, _group, message) => {
+      calls.push(BigInt(message));
+      if (message === 0n) {
+        throw new Error("Proof failed");
+      }
+      return { message: message.toString() } as SemaphoreProof;
+    };
+    const cache = createProofCache(generate, 2);
+
+    const first = await cache.generate(identity, group, 1n, 9n);
+    expect(await cache.generate(identity, group, "1", 9n)).to.equal(first);
+
+    // Another root, or the same root with another message, needs its own proof
+    await cache.generate(identity, new Group([identity.commitment]), 1n, 9n);
+    await cache.generate(identity, group, 2n, 9n);
+    expect(calls).to.deep.equal([1n, 1n, 2n]);
+
+    // The oldest entry was dropped past two entries, failures are not kept
+    await cache.generate(identity, group, 1n, 9n);
+    await cache.generate(identity, group, 0n, 9n).catch(() => undefined);
+    await cache.generate(identity, group, 0n, 9n).catch(() => undefined);
+    expect(calls).to.deep.equal([1n, 1n, 2n, 1n, 0n, 0n]);
+  });
+
+  it("should return the errors of proofs generated in worker threads", async () => {
+    const pool = createProofPool({ size: 1 });
+    const outsider = new Identity();
+
+    try {
+      const errors = await Promise.all([
+        pool.generate(outsider, group, 1n, 9n).catch((error) => error),
+        pool.generate(outsider, group, 2n, 9n).catch((error) => error),
+      ]);
+
+      // The worker looks up the member before it needs the artifacts
+      for (const error of errors) {
+        expect(error).to.be.instanceOf(Error);
+        expect(error.message).to.equal("The leaf at index '-1' does not exist in this tree");
+      }
+    } finally {
+      await pool.destroy();
+    }
+
+    const error = await pool.generate(identity, group, 1n, 9n).catch((error) => error);
+    expect(error.message).to.equal("Proof pool is destroyed");
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { Interface, toBeHex, TransactionRequest, zeroPadValue } from "ethers";
+import {
+  encodeGasLimitedPaymasterData,
+  encodeSimplePaymasterData,
+  ENTRY_POINT_ABI,
+  GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI,
+  getPostOpCharge,
+  GROUP_DEPOSITS_ABI,
+  parseUserOperationReceipt,
+  RpcUserOperationReceipt,
+  UserOperation,
+} from "../src";
+import { proof, sender } from "./fixtures";
+import { createMockProvider } from "./mockProvider";
+
+describe("receipt", () => {
+  const entryPoint = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const userOpHash = zeroPadValue("0xaa", 32);
+  const transactionHash = zeroPadValue("0xbb", 32);
+  const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+  const event = entryPointInterface.encodeEventLog("UserOperationEvent", [
+    userOpHash,
+    sender,
+    paymaster,
+    3n,
+    true,
+    5000n,
+    2500n,
+  ]);
+
+  const rpcReceipt: RpcUserOperationReceipt = {
+    userOpHash,
+    entryPoint,
+    sender,
+    nonce: "0x3",
+    paymaster,
+    actualGasCost: toBeHex(5000n),
+    actualGasUsed: toBeHex(2500n),
+    success: true,
+    reason: "0x",
+    logs: [{ address: sender, topics: [], data: "0x", logIndex: "0x0" }],
+    receipt: {
+      transactionHash,
+      blockHash: zeroPadValue("0xcc", 32),
+      blockNumber: "0xa",
+      logs: [{ address: entryPoint, ...event, logIndex: "0x1" }],
+    },
+  };
+
+  const userOp = (paymasterData: string): UserOperation => ({
+    sender,
+    nonce: 3,
+    callData: "0x",
+    callGasLimit: 100,
+    verificationGasLimit: 100,
+    preVerificationGas: 100,
+    maxFeePerGas: 2,
+    maxPriorityFeePerGas: 1,
+    paymaster,
+    paymasterVerificationGasLimit: 100,
+    paymasterPostOpGasLimit: 100,
+    paymasterData,
+    signature: "0x",
+  });
+
+  // Value at the block before the bundle, and at the bundle's block
+  const atBlock = (before: bigint, after: bigint) => (tx: TransactionRequest) => (tx.blockTag === 9 ? before : after);
+
+  it("should decode the receipt and its UserOperationEvent", () => {
+    const receipt = parseUserOperationReceipt(rpcReceipt);
+
+    expect(receipt.actualGasCost).to.equal(5000n);
+    expect(receipt.nonce).to.equal(3n);
+    expect(receipt.transactionHash).to.equal(transactionHash);
+    expect(receipt.blockNumber).to.equal(10);
+    expect(receipt.logs[0].logIndex).to.equal(0);
+    expect(receipt.event).to.deep.include({ userOpHash, success: true, actualGasUsed: 2500n, logIndex: 1 });
+  });
+
+  it("should throw when the bundle has no event for the operation", () => {
+    expect(() => parseUserOperationReceipt({ ...rpcReceipt, userOpHash: zeroPadValue("0x01", 32) })).to.throw(
+      "No UserOperationEvent",
+    );
+  });
+
+  it("should work out what _postOp took from the group deposit", async () => {
+    const provider = createMockProvider(GROUP_DEPOSITS_ABI, {
+      groupDeposits: (groupId: bigint, tx: TransactionRequest) => {
+        expect(groupId).to.equal(3n);
+        return atBlock(10000n, 5800n)(tx);
+      },
+    });
+
+    const charge = await getPostOpCharge(
+      provider,
+      "simple",
+      userOp(encodeSimplePaymasterData(3, proof)),
+      parseUserOperationReceipt(rpcReceipt),
+    );
+
+    expect(charge).to.deep.equal({
+      groupDepositCharged: 4200n,
+      gasUsedCharged: undefined,
+      charged: 4200n,
+      actualGasCost: 5000n,
+      uncharged: 800n,
+    });
+  });
+
+  it("should work out what _postOp added to the gas used of a nullifier", async () => {
+    const provider = createMockProvider(GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI, {
+      groupDeposits: () => 10000n,
+      gasData: (nullifier: bigint, tx: TransactionRequest) => {
+        expect(nullifier).to.equal(proof.nullifier);
+        return [atBlock(1000n, 5500n)(tx), 11n, 0n, sender];
+      },
+    });
+
+    const charge = await getPostOpCharge(
+      provider,
+      "gasLimited",
+      userOp(encodeGasLimitedPaymasterData(3, proof.nullifier)),
+      parseUserOperationReceipt(rpcReceipt),
+    );
+
+    expect(charge.groupDepositCharged).to.equal(0n);
+    expect(charge.gasUsedCharged).to.equal(4500n);
+    expect(charge.uncharged).to.equal(500n);
+  });
+});
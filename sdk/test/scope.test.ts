@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { AbiCoder, keccak256 } from "ethers";
+import { generateGasLimitedScope, generatePaymasterScope, generateScope, generateVariantScope } from "../src";
+
+describe("scope", () => {
+  it("should put the group ID in the lower 96 bits", () => {
+    const entryPoint = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+    const scope = generateScope(entryPoint, 3);
+
+    expect(scope & ((1n << 96n) - 1n)).to.equal(3n);
+    expect(scope >> 96n).to.equal(BigInt(entryPoint));
+  });
+
+  it("should bind the gas limited scope to the chain, paymaster, group and epoch", () => {
+    const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const expected = keccak256(
+      AbiCoder.defaultAbiCoder().encode(["uint256", "address", "uint256", "uint256"], [1337, paymaster, 1, 4]),
+    );
+
+    expect(generateGasLimitedScope(1337, paymaster, 1, 4)).to.equal(expected);
+    expect(generateGasLimitedScope(1, paymaster, 1, 4)).to.not.equal(expected);
+    expect(generateGasLimitedScope(1337, "0x0000000071727De22E5E9d8BAf0edAc6f37da032", 1, 4)).to.not.equal(expected);
+  });
+
+  it("should bind the simple and cached scope to the chain and paymaster", () => {
+    const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const expected = keccak256(
+      AbiCoder.defaultAbiCoder().encode(["uint256", "address", "uint256"], [1337, paymaster, 3]),
+    );
+
+    expect(generatePaymasterScope(1337, paymaster, 3)).to.equal(expected);
+    expect(generatePaymasterScope(1, paymaster, 3)).to.not.equal(expected);
+    expect(generateVariantScope("cached", 3, { chainId: 1337, paymasterAddress: paymaster })).to.equal(
+      BigInt(expected),
+    );
+    expect(generateVariantScope("gasLimited", 3, { chainId: 1337, paymasterAddress: paymaster, epoch: 4 })).to.equal(
+      BigInt(generateGasLimitedScope(1337, paymaster, 3, 4)),
+    );
+    expect(() => generateVariantScope("excubiae", 3, { chainId: 1337, paymasterAddress: paymaster })).to.throw(
+      "entry point address",
+    );
+  });
+});
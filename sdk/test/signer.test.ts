@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import { getBytes, recoverAddress, verifyMessage, Wallet } from "ethers";
+import {
+  createEthersUserOpSigner,
+  createPrivateKeyUserOpSigner,
+  createTypedDataUserOpSigner,
+  getUserOperationTypedDataHash,
+  getUserOpHash,
+  signUserOperation,
+  UserOperation,
+} from "../src";
+import { sender } from "./fixtures";
+
+describe("signer", () => {
+  const entryPoint = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+  const wallet = new Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+  const domain = { name: "VerifyingSimpleAccount", version: "1", chainId: 1337 };
+
+  const userOp: UserOperation = {
+    sender,
+    nonce: 0,
+    callData: "0x",
+    callGasLimit: 100,
+    verificationGasLimit: 100,
+    preVerificationGas: 100,
+    maxFeePerGas: 2,
+    maxPriorityFeePerGas: 1,
+    signature: "0x",
+  };
+  const userOpHash = getUserOpHash(userOp, entryPoint, 1337);
+
+  it("should sign the userOpHash for the EntryPoint and chain", async () => {
+    const signed = await signUserOperation(userOp, entryPoint, 1337, createEthersUserOpSigner(wallet));
+
+    expect(verifyMessage(getBytes(userOpHash), signed.signature as string)).to.equal(wallet.address);
+    expect(userOp.signature).to.equal("0x");
+  });
+
+  it("should sign with a raw private key like an ethers Signer", async () => {
+    const signature = await createPrivateKeyUserOpSigner(wallet.privateKey)(userOpHash, userOp);
+
+    expect(signature).to.equal(await createEthersUserOpSigner(wallet)(userOpHash, userOp));
+  });
+
+  it("should sign EIP-712 typed data with the sender as verifying contract", async () => {
+    const signature = await createTypedDataUserOpSigner(wallet, domain)(userOpHash, userOp);
+
+    expect(recoverAddress(getUserOperationTypedDataHash(userOpHash, sender, domain), signature)).to.equal(
+      wallet.address,
+    );
+  });
+});
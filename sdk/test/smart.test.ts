@@ -0,0 +1,319 @@
+import { expect } from "chai";
+import {
+  Interface,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Network,
+  toBeHex,
+  zeroPadValue,
+} from "ethers";
+import { Group, Identity, SemaphoreProof } from "@semaphore-protocol/core";
+import {
+  CACHED_SEMAPHORE_PAYMASTER_ABI,
+  createSmartPaymasterClient,
+  decodeCachedPaymasterData,
+  decodeGasLimitedPaymasterData,
+  deriveGasLimitedNullifier,
+  ENTRY_POINT_ABI,
+  GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI,
+  PaymasterClientConfig,
+  ReceiptTimeoutError,
+  UserOperation,
+  UserOperationError,
+} from "../src";
+import { sender } from "./fixtures";
+import { createMockProvider, EstimatingBundler } from "./mockProvider";
+
+const entryPointAddress = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+const paymasterAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const userOpHash = zeroPadValue("0xaa", 32);
+
+/**
+ * Bundler that runs onSend for each operation it is sent, which rejects it by
+ * throwing a JSON-RPC error, and includes the operations it accepts unless
+ * isIncluded says otherwise.
+ */
+class SendingBundler extends EstimatingBundler {
+  readonly sent: UserOperation[] = [];
+
+  constructor(
+    private readonly onSend: (userOp: UserOperation) => void,
+    private readonly isIncluded: (userOp: UserOperation) => boolean = () => true,
+  ) {
+    super();
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<(JsonRpcResult | JsonRpcError)[]> {
+    const [request] = [payload].flat();
+
+    switch (request.method) {
+      case "eth_sendUserOperation": {
+        const [userOp] = request.params as [UserOperation];
+        this.sent.push(userOp);
+        try {
+          this.onSend(userOp);
+        } catch (error) {
+          return [{ id: request.id, error: { code: -32500, message: (error as Error).message } }];
+        }
+        return [{ id: request.id, result: userOpHash }];
+      }
+      case "eth_getUserOperationReceipt": {
+        const userOp = this.sent[this.sent.length - 1];
+        return [{ id: request.id, result: this.isIncluded(userOp) ? rpcReceipt(userOp) : null }];
+      }
+      default:
+        return super._send(payload);
+    }
+  }
+}
+
+function rpcReceipt(userOp: UserOperation) {
+  const event = new Interface(ENTRY_POINT_ABI).encodeEventLog("UserOperationEvent", [
+    userOpHash,
+    userOp.sender,
+    paymasterAddress,
+    userOp.nonce,
+    true,
+    5000n,
+    2500n,
+  ]);
+
+  return {
+    userOpHash,
+    entryPoint: entryPointAddress,
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    paymaster: paymasterAddress,
+    actualGasCost: toBeHex(5000n),
+    actualGasUsed: toBeHex(2500n),
+    success: true,
+    reason: "0x",
+    logs: [],
+    receipt: {
+      transactionHash: zeroPadValue("0xbb", 32),
+      blockHash: zeroPadValue("0xcc", 32),
+      blockNumber: "0xa",
+      logs: [{ address: entryPointAddress, ...event, logIndex: "0x0" }],
+    },
+  };
+}
+
+describe("smart", () => {
+  const identity = new Identity("0x0123456789012345678901234567890123456789012345678901234567890123");
+  const group = new Group([identity.commitment, new Identity().commitment]);
+  const proofs: unknown[] = [];
+
+  const config = (abi: string[], handlers: Record<string, (...args: any[]) => unknown>, bundler: EstimatingBundler) =>
+    ({
+      paymasterAddress,
+      entryPointAddress,
+      provider: createMockProvider(
+        [...ENTRY_POINT_ABI, ...abi],
+        { getNonce: () => 0n, ...handlers },
+        {
+          getFeeData: async () => ({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }),
+          getNetwork: async () => Network.from(1337),
+        },
+      ) as unknown as JsonRpcProvider,
+      bundlerProvider: bundler,
+      generateProof: async (_identity, proofGroup, message, scope) => {
+        proofs.push(message);
+        return {
+          merkleTreeDepth: proofGroup.depth,
+          merkleTreeRoot: proofGroup.root.toString(),
+          nullifier: "22",
+          message: message.toString(),
+          scope: scope.toString(),
+          points: ["1", "2", "3", "4", "5", "6", "7", "8"],
+        } as SemaphoreProof;
+      },
+    }) satisfies PaymasterClientConfig;
+
+  beforeEach(() => proofs.splice(0));
+
+  it("should send the cached form while the cached proof is valid, a fresh proof otherwise", async () => {
+    let lastMerkleRoot = group.root;
+    const bundler = new SendingBundler((userOp) => {
+      if (!decodeCachedPaymasterData(userOp.paymasterData!).useCache) {
+        lastMerkleRoot = group.root;
+      }
+    });
+    const client = createSmartPaymasterClient(
+      config(
+        CACHED_SEMAPHORE_PAYMASTER_ABI,
+        {
+          isValidCachedProof: () => lastMerkleRoot === group.root,
+          getMerkleTreeRoot: () => group.root,
+        },
+        bundler,
+      ),
+      "cached",
+    );
+    const params = { sender, callData: "0x", identity, group, groupId: 3 };
+
+    const cached = await client.sendUserOperation(params);
+    expect(cached).to.deep.include({ useCache: true, attempts: 1 });
+    expect(proofs).to.deep.equal([]);
+
+    lastMerkleRoot = 5n;
+    const fresh = await client.sendUserOperation(params);
+    expect(fresh).to.deep.include({ useCache: false, attempts: 1 });
+    expect(proofs).to.deep.equal([BigInt(sender)]);
+    expect(decodeCachedPaymasterData(fresh.userOp.paymasterData!).useCache).to.be.false;
+    bundler.destroy();
+  });
+
+  it("should rebuild an operation rejected after the root moved", async () => {
+    // The cached proof was for the root before a member was added
+    const before = new Group([identity.commitment]);
+    let root = before.root;
+    const bundler = new SendingBundler((userOp) => {
+      if (decodeGasLimitedPaymasterData(userOp.paymasterData!).useCache) {
+        root = group.root;
+        throw new Error("FailedOp(0, AA34 signature error)");
+      }
+    });
+    const retries: string[] = [];
+    const client = createSmartPaymasterClient(
+      config(
+        GAS_LIMITED_SEMAPHORE_PAYMASTER_ABI,
+        {
+          currentEpoch: () => 4n,
+          gasData: (nullifier: bigint) => {
+            expect(nullifier).to.equal(deriveGasLimitedNullifier(identity, 1337, paymasterAddress, 3, 4));
+            return [0n, before.root, 4n, sender];
+          },
+          maxGasPerUserPerEpoch: () => 10n ** 18n,
+          getMerkleTreeRoot: () => root,
+          groupDeposits: () => 10n ** 18n,
+        },
+        bundler,
+      ),
+      "gasLimited",
+    );
+
+    const result = await client.sendUserOperation({
+      sender,
+      callData: "0x",
+      identity,
+      group: async () => group,
+      groupId: 3,
+      onRetry: (error, attempt) => retries.push(`${attempt}:${(error as UserOperationError).checks.join(",")}`),
+    });
+
+    expect(result).to.deep.include({ useCache: false, attempts: 2 });
+    expect(retries).to.deep.equal(["1:STALE_MERKLE_ROOT"]);
+    expect(bundler.sent.map((userOp) => decodeGasLimitedPaymasterData(userOp.paymasterData!).useCache)).to.deep.equal([
+      true,
+      false,
+    ]);
+    bundler.destroy();
+  });
+
+  it("should rebuild an operation that was never included after the root moved", async () => {
+    const before = new Group([identity.commitment]);
+    let root = before.root;
+    // The bundler accepts the cached form but drops it once the root moves
+    const bundler = new SendingBundler(
+      (userOp) => {
+        if (decodeCachedPaymasterData(userOp.paymasterData!).useCache) {
+          root = group.root;
+        }
+      },
+      (userOp) => !decodeCachedPaymasterData(userOp.paymasterData!).useCache,
+    );
+    const retries: unknown[] = [];
+    const client = createSmartPaymasterClient(
+      config(
+        CACHED_SEMAPHORE_PAYMASTER_ABI,
+        {
+          isValidCachedProof: () => root === before.root,
+          getMerkleTreeRoot: () => root,
+        },
+        bundler,
+      ),
+      "cached",
+    );
+
+    const result = await client.sendUserOperation({
+      sender,
+      callData: "0x",
+      identity,
+      group,
+      groupId: 3,
+      receiptPollingDelay: 1,
+      maxReceiptAttempts: 3,
+      onRetry: (error) => retries.push(error),
+    });
+
+    expect(result).to.deep.include({ useCache: false, attempts: 2 });
+    expect(retries).to.have.length(1);
+    expect(retries[0]).to.be.instanceOf(ReceiptTimeoutError);
+    expect(bundler.sent).to.have.length(2);
+    bundler.destroy();
+  });
+
+  it("should not retry a missing receipt the root and epoch don't explain", async () => {
+    const bundler = new SendingBundler(
+      () => {},
+      () => false,
+    );
+    const client = createSmartPaymasterClient(
+      config(
+        CACHED_SEMAPHORE_PAYMASTER_ABI,
+        {
+          isValidCachedProof: () => true,
+          getMerkleTreeRoot: () => group.root,
+        },
+        bundler,
+      ),
+      "cached",
+    );
+
+    const error = await client
+      .sendUserOperation({
+        sender,
+        callData: "0x",
+        identity,
+        group,
+        groupId: 3,
+        receiptPollingDelay: 1,
+        maxReceiptAttempts: 3,
+      })
+      .catch((error) => error);
+
+    expect(error).to.be.instanceOf(ReceiptTimeoutError);
+    expect(bundler.sent).to.have.length(1);
+    bundler.destroy();
+  });
+
+  it("should not retry a rejection the root and epoch don't explain", async () => {
+    const bundler = new SendingBundler(() => {
+      throw new Error("FailedOp(0, AA34 signature error)");
+    });
+    const client = createSmartPaymasterClient(
+      config(
+        CACHED_SEMAPHORE_PAYMASTER_ABI,
+        {
+          isValidCachedProof: () => false,
+          getMerkleTreeRoot: () => group.root,
+          groupDeposits: () => 0n,
+          verifyProof: () => true,
+        },
+        bundler,
+      ),
+      "cached",
+    );
+
+    const error = await client
+      .sendUserOperation({ sender, callData: "0x", identity, group, groupId: 3 })
+      .catch((error) => error);
+
+    expect(error).to.be.instanceOf(UserOperationError);
+    expect(error.checks).to.deep.equal(["INSUFFICIENT_GROUP_DEPOSIT"]);
+    expect(bundler.sent).to.have.length(1);
+    bundler.destroy();
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { Interface, Log, Provider, zeroPadValue } from "ethers";
+import { ENTRY_POINT_ABI, GROUP_DEPOSITS_ABI, readTreasury } from "../src";
+import { createMockProvider } from "./mockProvider";
+
+describe("treasury", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const entryPoint = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+  const paymasterInterface = new Interface(GROUP_DEPOSITS_ABI);
+  const deposited = new Interface(ENTRY_POINT_ABI).getEvent("Deposited")!;
+
+  const transactions: Record<string, { to: string; data: string; value: bigint }> = {
+    "0x01": { to: paymaster, data: paymasterInterface.encodeFunctionData("depositForGroup", [0]), value: 5n },
+    "0x02": { to: paymaster, data: paymasterInterface.encodeFunctionData("depositForGroup", [3]), value: 7n },
+    "0x03": { to: entryPoint, data: "0x", value: 2n },
+  };
+
+  function createProvider(groupDeposits: Record<string, bigint>, entryPointBalance: bigint): Provider {
+    const provider: Provider = createMockProvider(
+      [...GROUP_DEPOSITS_ABI, ...ENTRY_POINT_ABI],
+      {
+        entryPoint: () => entryPoint,
+        groupDeposits: (groupId: bigint) => groupDeposits[groupId.toString()],
+        balanceOf: () => entryPointBalance,
+      },
+      {
+        getLogs: async () =>
+          Object.keys(transactions).map(
+            (transactionHash, index) =>
+              new Log(
+                {
+                  transactionHash: zeroPadValue(transactionHash, 32),
+                  blockHash: zeroPadValue("0x01", 32),
+                  blockNumber: index,
+                  removed: false,
+                  address: entryPoint,
+                  data: "0x" + "00".repeat(32),
+                  topics: [deposited.topicHash, zeroPadValue(paymaster, 32)],
+                  index,
+                  transactionIndex: 0,
+                },
+                provider,
+              ),
+          ),
+        getTransaction: async (hash: string) => transactions[`0x${hash.slice(-2)}`],
+      },
+    );
+
+    return provider;
+  }
+
+  it("should list the groups funded through depositForGroup", async () => {
+    const report = await readTreasury(createProvider({ "0": 5n, "3": 7n }, 14n), paymaster);
+
+    expect(report.groups).to.deep.equal([
+      { groupId: 0n, groupDeposit: 5n },
+      { groupId: 3n, groupDeposit: 7n },
+    ]);
+    expect(report.totalGroupDeposits).to.equal(12n);
+    expect(report.drift).to.equal(2n);
+  });
+
+  it("should report no drift when the deposits match", async () => {
+    const report = await readTreasury(createProvider({ "0": 5n, "3": 9n }, 14n), paymaster);
+
+    expect(report.drift).to.equal(0n);
+  });
+});
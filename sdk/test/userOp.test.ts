@@ -0,0 +1,14 @@
+import { expect } from "chai";
+import { hexZeroPad, packUint } from "../src";
+
+describe("userOp", () => {
+  it("should pad odd length hex values", () => {
+    expect(hexZeroPad("0x123", 4)).to.equal("0x00000123");
+    expect(packUint(1, 2)).to.equal("0x" + "1".padStart(32, "0") + "2".padStart(32, "0"));
+  });
+
+  it("should throw for invalid or oversized values", () => {
+    expect(() => hexZeroPad("123", 4)).to.throw("Invalid hex string 123");
+    expect(() => hexZeroPad("0x0102030405", 4)).to.throw("longer than 4 bytes");
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { makeError, Network, toBigInt, ZeroAddress } from "ethers";
+import {
+  checkUserOperation,
+  encodeCachedPaymasterData,
+  encodeExcubiaeEvidence,
+  encodeExcubiaePaymasterData,
+  encodeGasLimitedPaymasterData,
+  encodeSimplePaymasterData,
+  generateGasLimitedScope,
+  generatePaymasterScope,
+  getRequiredPrefund,
+  readValidationState,
+  SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+  UserOperation,
+} from "../src";
+import { proof, sender } from "./fixtures";
+import { createMockProvider } from "./mockProvider";
+
+describe("validate", () => {
+  const userOp = (paymasterData: string): UserOperation => ({
+    sender,
+    nonce: 0,
+    callData: "0x",
+    callGasLimit: 100,
+    verificationGasLimit: 100,
+    preVerificationGas: 100,
+    maxFeePerGas: 2,
+    maxPriorityFeePerGas: 1,
+    paymaster: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    paymasterVerificationGasLimit: 100,
+    paymasterPostOpGasLimit: 100,
+    paymasterData,
+    signature: "0x",
+  });
+
+  it("should compute the required prefund from every gas limit", () => {
+    expect(getRequiredPrefund(userOp("0x"))).to.equal(1000n);
+  });
+
+  it("should accept a valid simple operation", () => {
+    const op = userOp(encodeSimplePaymasterData(3, proof));
+
+    expect(checkUserOperation("simple", op, { groupDeposit: 1000n, proofVerified: true })).to.deep.equal([]);
+  });
+
+  it("should report the message and deposit of a simple operation", () => {
+    const op = userOp(encodeSimplePaymasterData(3, { ...proof, message: 1n }));
+    const issues = checkUserOperation("simple", op, { groupDeposit: 999n, proofVerified: false });
+
+    expect(issues.map((issue) => issue.code)).to.deep.equal([
+      "INSUFFICIENT_GROUP_DEPOSIT",
+      "INVALID_MESSAGE",
+      "INVALID_PROOF",
+    ]);
+    expect(issues[0].expected).to.equal(1000n);
+  });
+
+  it("should check the simple and cached scope against the chain and paymaster", () => {
+    const scope = toBigInt(generatePaymasterScope(1337, "0x5FbDB2315678afecb367f032d93F642f64180aa3", 3));
+    const state = { groupDeposit: 1000n, proofVerified: true, chainId: 1337n };
+
+    expect(
+      checkUserOperation("simple", userOp(encodeSimplePaymasterData(3, { ...proof, scope })), state),
+    ).to.deep.equal([]);
+    expect(
+      checkUserOperation("cached", userOp(encodeCachedPaymasterData(3, { ...proof, scope })), state),
+    ).to.deep.equal([]);
+
+    // A proof for the same group on another chain
+    const issues = checkUserOperation("simple", userOp(encodeSimplePaymasterData(3, { ...proof, scope })), {
+      ...state,
+      chainId: 1n,
+    });
+    expect(issues.map((issue) => issue.code)).to.deep.equal(["INVALID_SCOPE"]);
+  });
+
+  it("should only read a reverting verifyProof as an invalid proof", async () => {
+    const provider = (verifyProof: () => boolean) =>
+      createMockProvider(
+        SIMPLE_SEMAPHORE_PAYMASTER_ABI,
+        { groupDeposits: () => 1000n, getMerkleTreeRoot: () => 5n, verifyProof },
+        { getNetwork: async () => Network.from(1337) },
+      );
+    const op = userOp(encodeSimplePaymasterData(3, proof));
+
+    const state = await readValidationState(
+      provider(() => {
+        throw makeError("execution reverted", "CALL_EXCEPTION");
+      }),
+      "simple",
+      op,
+    );
+    expect(state.proofVerified).to.equal(false);
+
+    const error = await readValidationState(
+      provider(() => {
+        throw makeError("rate limited", "SERVER_ERROR");
+      }),
+      "simple",
+      op,
+    ).catch((error) => error);
+    expect(error.code).to.equal("SERVER_ERROR");
+  });
+
+  it("should report a stale cached root", () => {
+    const issues = checkUserOperation("cached", userOp(encodeCachedPaymasterData(3)), {
+      groupDeposit: 1000n,
+      merkleTreeRoot: 5n,
+      lastMerkleRoot: 4n,
+    });
+
+    expect(issues.map((issue) => issue.code)).to.deep.equal(["STALE_MERKLE_ROOT"]);
+  });
+
+  it("should check the gas limited scope against the chain, paymaster and current epoch", () => {
+    const scope = toBigInt(generateGasLimitedScope(1337, "0x5FbDB2315678afecb367f032d93F642f64180aa3", 3, 1));
+    const op = userOp(encodeGasLimitedPaymasterData(3, { ...proof, scope }));
+    const state = {
+      groupDeposit: 1000n,
+      merkleTreeRoot: 5n,
+      proofVerified: true,
+      chainId: 1337n,
+      currentEpoch: 1n,
+      maxGasPerUserPerEpoch: 1000n,
+      gasData: { gasUsed: 0n, lastMerkleRoot: 0n, epoch: 0n, sender },
+    };
+
+    expect(checkUserOperation("gasLimited", op, state)).to.deep.equal([]);
+    expect(checkUserOperation("gasLimited", op, { ...state, currentEpoch: 2n })[0].code).to.equal("INVALID_SCOPE");
+    expect(checkUserOperation("gasLimited", op, { ...state, chainId: 1n })[0].code).to.equal("INVALID_SCOPE");
+
+    // The same proof sent to another GasLimited deployment
+    const issues = checkUserOperation(
+      "gasLimited",
+      { ...op, paymaster: "0x0000000071727De22E5E9d8BAf0edAc6f37da032" },
+      state,
+    );
+    expect(issues.map((issue) => issue.code)).to.deep.equal(["INVALID_SCOPE"]);
+  });
+
+  it("should report stale cached gas data and an exhausted budget", () => {
+    const issues = checkUserOperation("gasLimited", userOp(encodeGasLimitedPaymasterData(3, proof.nullifier)), {
+      groupDeposit: 1000n,
+      merkleTreeRoot: 5n,
+      currentEpoch: 2n,
+      maxGasPerUserPerEpoch: 1500n,
+      gasData: { gasUsed: 600n, lastMerkleRoot: 4n, epoch: 1n, sender: ZeroAddress },
+    });
+
+    expect(issues.map((issue) => issue.code)).to.deep.equal([
+      "STALE_MERKLE_ROOT",
+      "STALE_EPOCH",
+      "INVALID_SENDER",
+      "GAS_LIMIT_EXCEEDED",
+    ]);
+  });
+
+  it("should check the group ID in the excubiae scope", () => {
+    const evidence = encodeExcubiaeEvidence({ ...proof, scope: (1n << 96n) | 4n });
+    const issues = checkUserOperation("excubiae", userOp(encodeExcubiaePaymasterData(3, evidence)), {
+      groupDeposit: 1000n,
+    });
+
+    expect(issues.map((issue) => issue.code)).to.deep.equal(["INVALID_GROUP_ID"]);
+  });
+
+  it("should report malformed paymaster data", () => {
+    const issues = checkUserOperation("simple", userOp("0x1234"), { groupDeposit: 1000n });
+
+    expect(issues.map((issue) => issue.code)).to.deep.equal(["MALFORMED_PAYMASTER_DATA"]);
+  });
+});
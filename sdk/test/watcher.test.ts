@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import {
+  AlertSink,
+  createBalancePoll,
+  ENTRY_POINT_ABI,
+  GROUP_DEPOSITS_ABI,
+  LowBalanceAlert,
+  sleep,
+  startBalanceWatcher,
+} from "../src";
+import { createMockProvider } from "./mockProvider";
+
+describe("watcher", () => {
+  const paymaster = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+  it("should alert once when a group drops below the minimum runway", async () => {
+    const groupDeposits: Record<string, bigint> = { "0": 250n, "1": 5000n };
+    const provider = createMockProvider(
+      [...GROUP_DEPOSITS_ABI, ...ENTRY_POINT_ABI],
+      {
+        entryPoint: () => "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+        groupDeposits: (groupId: bigint) => groupDeposits[groupId.toString()],
+      },
+      { getBlockNumber: async () => 10, getLogs: async () => [] },
+    );
+    const alerts: LowBalanceAlert[] = [];
+
+    const watcher = startBalanceWatcher(provider, {
+      paymasterAddress: paymaster,
+      groupIds: [0, 1],
+      minRunway: 5,
+      defaultPrefund: 100n,
+      sinks: [{ send: (alert) => void alerts.push(alert) }],
+      pollingInterval: 5,
+    });
+    await sleep(50);
+    await watcher.stop();
+
+    expect(alerts).to.have.length(1);
+    expect(alerts[0].groupId).to.equal(0n);
+    expect(alerts[0].runway).to.equal(2n);
+    expect(alerts[0].worstCasePrefund).to.equal(100n);
+  });
+
+  it("should only resend to the sink that failed", async () => {
+    const provider = createMockProvider(
+      [...GROUP_DEPOSITS_ABI, ...ENTRY_POINT_ABI],
+      {
+        entryPoint: () => "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+        groupDeposits: () => 250n,
+      },
+      { getBlockNumber: async () => 10, getLogs: async () => [] },
+    );
+    const stdoutAlerts: LowBalanceAlert[] = [];
+    const webhookAlerts: LowBalanceAlert[] = [];
+    const errors: unknown[] = [];
+    const webhook: AlertSink = {
+      send: async (alert) => {
+        webhookAlerts.push(alert);
+        if (webhookAlerts.length === 1) {
+          throw new Error("Webhook unreachable");
+        }
+      },
+    };
+
+    const poll = createBalancePoll(provider, {
+      paymasterAddress: paymaster,
+      groupIds: [0],
+      minRunway: 5,
+      defaultPrefund: 100n,
+      sinks: [{ send: (alert) => void stdoutAlerts.push(alert) }, webhook],
+      onError: (error) => errors.push(error),
+    });
+    await poll();
+
+    expect(stdoutAlerts).to.have.length(1);
+    expect(webhookAlerts).to.have.length(1);
+    expect(errors).to.have.length(1);
+
+    await poll();
+    await poll();
+
+    expect(stdoutAlerts).to.have.length(1);
+    expect(webhookAlerts).to.have.length(2);
+    expect(errors).to.have.length(1);
+  });
+
+  it("should alert later groups while an earlier sink fails", async () => {
+    const provider = createMockProvider(
+      [...GROUP_DEPOSITS_ABI, ...ENTRY_POINT_ABI],
+      {
+        entryPoint: () => "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+        groupDeposits: () => 250n,
+      },
+      { getBlockNumber: async () => 10, getLogs: async () => [] },
+    );
+    const alerts: LowBalanceAlert[] = [];
+    const errors: unknown[] = [];
+
+    const poll = createBalancePoll(provider, {
+      paymasterAddress: paymaster,
+      groupIds: [0, 1],
+      minRunway: 5,
+      defaultPrefund: 100n,
+      sinks: [
+        {
+          send: (alert) => {
+            if (alert.groupId === 0n) {
+              throw new Error("Webhook unreachable");
+            }
+            alerts.push(alert);
+          },
+        },
+      ],
+      onError: (error) => errors.push(error),
+    });
+    await poll();
+    await poll();
+
+    expect(alerts).to.have.length(1);
+    expect(alerts[0].groupId).to.equal(1n);
+    expect(errors).to.have.length(2);
+  });
+
+  it("should reject a zero default prefund", () => {
+    const provider = createMockProvider(GROUP_DEPOSITS_ABI, {});
+
+    expect(() =>
+      startBalanceWatcher(provider, {
+        paymasterAddress: paymaster,
+        groupIds: [0],
+        minRunway: 5,
+        defaultPrefund: 0,
+        sinks: [],
+      }),
+    ).to.throw("defaultPrefund must be greater than zero");
+  });
+});